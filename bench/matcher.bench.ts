@@ -0,0 +1,72 @@
+import { compileRoutes } from '../src/matcher';
+import type { RouteWithIds } from '../src/router';
+
+// Benchmarks the compiled route matcher against route tables of growing size.
+// Run with `yarn bench`
+
+const Page = () => null;
+
+/**
+ * Builds a route table with `sections` top level sections, each with a mix
+ * of static, param and catch-all children
+ */
+const buildRoutes = (sections: number): RouteWithIds[] => {
+    const routes: RouteWithIds[] = [];
+
+    for (let i = 0; i < sections; i += 1) {
+        routes.push({
+            id: `section-${i}`,
+            match: `/section-${i}`,
+            children: [
+                { id: `section-${i}-index`, match: '/', component: Page },
+                { id: `section-${i}-new`, match: '/items/new', component: Page },
+                { id: `section-${i}-item`, match: '/items/:id', component: Page },
+                { id: `section-${i}-edit`, match: '/items/:id/edit', component: Page },
+                { id: `section-${i}-all`, match: '*', component: Page },
+            ],
+        });
+    }
+
+    routes.push({ id: 'user', match: '/:user', component: Page });
+    routes.push({ id: 'not-found', match: '*', component: Page });
+
+    return routes;
+};
+
+const time = (fn: () => void, iterations: number) => {
+    const start = performance.now();
+    for (let i = 0; i < iterations; i += 1) {
+        fn();
+    }
+    return (performance.now() - start) / iterations;
+};
+
+const MATCH_ITERATIONS = 10000;
+
+[100, 1000, 5000].forEach((sections) => {
+    const routes = buildRoutes(sections);
+
+    let matcher = compileRoutes(routes);
+    const compileMs = time(() => {
+        matcher = compileRoutes(routes);
+    }, 5);
+
+    const last = sections - 1;
+    const paths = [
+        `/section-${last}/items/new`,
+        `/section-${last}/items/42/edit`,
+        `/section-${last}/some/deep/path`,
+        '/someone',
+        '/nothing/here',
+    ];
+
+    const matchMs = time(() => {
+        paths.forEach((path) => matcher.match(path));
+    }, MATCH_ITERATIONS);
+
+    // eslint-disable-next-line
+    console.log(
+        `${matcher.entries.length} entries: compile ${compileMs.toFixed(2)}ms, ` +
+            `match ${((matchMs / paths.length) * 1000).toFixed(2)}µs`
+    );
+});
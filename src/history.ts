@@ -0,0 +1,395 @@
+import type { RouterLocation } from './router';
+
+// Called whenever the location changes from outside of the router,
+// ie the back/forward buttons or a call to `go`. The delta is how many
+// entries were moved, null when unknown (ie the user edited the url hash)
+export type HistoryListener = (location: RouterLocation, delta: number | null) => void;
+
+// The history backend used by the router. The router drives navigation
+// through `push`/`replace` and only listens for changes it did not make itself
+export interface History {
+    getLocation: () => RouterLocation;
+    push: (location: RouterLocation) => void;
+    replace: (location: RouterLocation) => void;
+    go: (delta: number) => void;
+    listen: (listener: HistoryListener) => () => void;
+    createHref: (location: RouterLocation) => string;
+}
+
+// HELPERS
+
+/**
+ * Splits a url like /profile?tab=settings#billing into a RouterLocation.
+ * The pathname is empty for urls without one, ie ?tab=settings
+ */
+export const parsePath = (path: string): RouterLocation => {
+    let rest = path;
+
+    let hash = '';
+    const hashIndex = rest.indexOf('#');
+    if (hashIndex !== -1) {
+        hash = rest.substring(hashIndex);
+        rest = rest.substring(0, hashIndex);
+    }
+
+    let search = '';
+    const searchIndex = rest.indexOf('?');
+    if (searchIndex !== -1) {
+        search = rest.substring(searchIndex);
+        rest = rest.substring(0, searchIndex);
+    }
+
+    return { pathname: rest, search, hash };
+};
+
+/**
+ * A url of a history entry as a RouterLocation. Entries always have a pathname
+ */
+const parseEntry = (path: string): RouterLocation => {
+    const location = parsePath(path);
+    return { ...location, pathname: location.pathname || '/' };
+};
+
+/**
+ * Converts a RouterLocation back into a url
+ */
+export const createPath = ({ pathname, search, hash = '' }: RouterLocation) =>
+    pathname + search + hash;
+
+/**
+ * Removes the basename from a pathname, ie /app/profile => /profile for the basename /app.
+ * Returns null for pathnames outside of the basename
+ */
+export const stripBasename = (pathname: string, basename: string): string | null => {
+    const base = basename.replace(/\/+$/, '');
+    if (!base) {
+        return pathname;
+    }
+
+    const lowerPathname = pathname.toLowerCase();
+    const lowerBase = base.toLowerCase();
+    if (lowerPathname === lowerBase) {
+        return '/';
+    }
+
+    return lowerPathname.startsWith(`${lowerBase}/`) ? pathname.substring(base.length) : null;
+};
+
+/**
+ * Adds the basename to a pathname, ie /profile => /app/profile for the basename /app
+ */
+export const addBasename = (pathname: string, basename: string) =>
+    basename.replace(/\/+$/, '') + pathname;
+
+/**
+ * A unique key for a new history entry
+ */
+const createKey = () => Math.random().toString(36).substring(2, 10);
+
+// The key of entries created outside of the router, ie the initial page load
+const DEFAULT_KEY = 'default';
+
+/**
+ * The window history state holds the entry key and index along with the location state
+ */
+const toWindowState = (location: RouterLocation, idx: number) => ({
+    key: createKey(),
+    state: location.state ?? null,
+    idx,
+});
+
+const fromWindowState = () => {
+    const windowState = window.history.state;
+
+    return {
+        key: windowState?.key ?? DEFAULT_KEY,
+        state: windowState?.state,
+    };
+};
+
+/**
+ * The index of the current window history entry. Entries created outside of the
+ * router have none, the initial entry is given index 0 so moves can be measured
+ */
+const getWindowIndex = (): number | null => {
+    const idx = window.history.state?.idx;
+    return typeof idx === 'number' ? idx : null;
+};
+
+const initWindowIndex = () => {
+    const idx = getWindowIndex();
+    if (idx !== null) {
+        return idx;
+    }
+
+    window.history.replaceState({ ...window.history.state, idx: 0 }, '');
+    return 0;
+};
+
+/**
+ * The index of the entry a history is at. It is only initialized on first use,
+ * so creating a history has no side effects
+ */
+const createWindowIndex = () => {
+    let index: number | null = null;
+
+    return {
+        get: () => {
+            if (index === null) {
+                index = initWindowIndex();
+            }
+            return index;
+        },
+        set: (idx: number) => {
+            index = idx;
+        },
+    };
+};
+
+const createListeners = () => {
+    let listeners: HistoryListener[] = [];
+
+    return {
+        add(listener: HistoryListener) {
+            listeners.push(listener);
+
+            return () => {
+                listeners = listeners.filter((l) => l !== listener);
+            };
+        },
+        call(location: RouterLocation, delta: number | null) {
+            listeners.forEach((listener) => listener(location, delta));
+        },
+        size() {
+            return listeners.length;
+        },
+    };
+};
+
+// BROWSER
+
+/**
+ * History backed by the html5 history api. Urls look like /profile?tab=settings
+ */
+export const createBrowserHistory = (): History => {
+    const listeners = createListeners();
+    const index = createWindowIndex();
+
+    const getLocation = (): RouterLocation => ({
+        pathname: window.location.pathname,
+        search: window.location.search,
+        hash: window.location.hash,
+        ...fromWindowState(),
+    });
+
+    const popStateListener = () => {
+        const idx = getWindowIndex();
+        const delta = idx === null ? null : idx - index.get();
+        index.set(idx ?? index.get());
+        listeners.call(getLocation(), delta);
+    };
+
+    return {
+        getLocation,
+        push(location) {
+            index.set(index.get() + 1);
+            window.history.pushState(
+                toWindowState(location, index.get()),
+                '',
+                createPath(location)
+            );
+        },
+        replace(location) {
+            window.history.replaceState(
+                toWindowState(location, index.get()),
+                '',
+                createPath(location)
+            );
+        },
+        go(delta) {
+            window.history.go(delta);
+        },
+        listen(listener) {
+            // Only subscribe to the window once, no matter how many listeners there are
+            if (!listeners.size()) {
+                // Moves are measured from the entry the history was at when listening started
+                index.get();
+                window.addEventListener('popstate', popStateListener);
+            }
+            const unlisten = listeners.add(listener);
+
+            return () => {
+                unlisten();
+                if (!listeners.size()) {
+                    window.removeEventListener('popstate', popStateListener);
+                }
+            };
+        },
+        createHref: createPath,
+    };
+};
+
+// HASH
+
+/**
+ * History that keeps the location in the url hash. Urls look like /#/profile?tab=settings.
+ * Useful when the server can't be configured to serve the app on every path, ie file:// urls
+ */
+export const createHashHistory = (): History => {
+    const listeners = createListeners();
+    const index = createWindowIndex();
+
+    const getLocation = (): RouterLocation => ({
+        ...parseEntry(window.location.hash.substring(1)),
+        ...fromWindowState(),
+    });
+
+    const createHref = (location: RouterLocation) => `#${createPath(location)}`;
+
+    const hashChangeListener = () => {
+        // Editing the hash by hand creates an entry without an index
+        const idx = getWindowIndex();
+        const delta = idx === null ? null : idx - index.get();
+        if (idx === null) {
+            index.set(index.get() + 1);
+            window.history.replaceState({ ...window.history.state, idx: index.get() }, '');
+        } else {
+            index.set(idx);
+        }
+
+        listeners.call(getLocation(), delta);
+    };
+
+    return {
+        getLocation,
+        push(location) {
+            index.set(index.get() + 1);
+            window.history.pushState(
+                toWindowState(location, index.get()),
+                '',
+                createHref(location)
+            );
+        },
+        replace(location) {
+            window.history.replaceState(
+                toWindowState(location, index.get()),
+                '',
+                createHref(location)
+            );
+        },
+        go(delta) {
+            window.history.go(delta);
+        },
+        listen(listener) {
+            // Only subscribe to the window once, no matter how many listeners there are
+            if (!listeners.size()) {
+                // Moves are measured from the entry the history was at when listening started
+                index.get();
+                window.addEventListener('hashchange', hashChangeListener);
+            }
+            const unlisten = listeners.add(listener);
+
+            return () => {
+                unlisten();
+                if (!listeners.size()) {
+                    window.removeEventListener('hashchange', hashChangeListener);
+                }
+            };
+        },
+        createHref,
+    };
+};
+
+// MEMORY
+
+export interface MemoryHistoryOptions {
+    initialEntries?: (string | RouterLocation)[];
+    initialIndex?: number;
+}
+
+/**
+ * History that keeps its entries in memory. Used for SSR, tests or
+ * anywhere there is no window
+ */
+export const createMemoryHistory = ({
+    initialEntries = ['/'],
+    initialIndex,
+}: MemoryHistoryOptions = {}): History => {
+    const listeners = createListeners();
+
+    const createEntry = (location: RouterLocation) => ({ ...location, key: createKey() });
+
+    let entries: RouterLocation[] = initialEntries.map((entry) =>
+        createEntry(typeof entry === 'string' ? parseEntry(entry) : entry)
+    );
+    if (!entries.length) {
+        entries = [createEntry(parseEntry('/'))];
+    }
+
+    const clampIndex = (i: number) => Math.min(Math.max(i, 0), entries.length - 1);
+    let index = clampIndex(initialIndex ?? entries.length - 1);
+
+    return {
+        getLocation() {
+            return entries[index];
+        },
+        push(location) {
+            index += 1;
+            entries = [...entries.slice(0, index), createEntry(location)];
+        },
+        replace(location) {
+            entries = [
+                ...entries.slice(0, index),
+                createEntry(location),
+                ...entries.slice(index + 1),
+            ];
+        },
+        go(delta) {
+            const nextIndex = clampIndex(index + delta);
+            if (nextIndex === index) {
+                return;
+            }
+
+            // Moves are clamped to the existing entries
+            const moved = nextIndex - index;
+            index = nextIndex;
+            listeners.call(entries[index], moved);
+        },
+        listen(listener) {
+            return listeners.add(listener);
+        },
+        createHref: createPath,
+    };
+};
+
+// BASENAME
+
+/**
+ * Serves an app from under a path, ie /app. The router only ever sees the locations without
+ * the basename, it is added back to every location pushed to the history and every href.
+ * Locations outside of the basename are left alone
+ */
+export const withBasename = (history: History, basename: string): History => {
+    if (!basename.replace(/\/+$/, '')) {
+        return history;
+    }
+
+    const strip = (location: RouterLocation): RouterLocation => {
+        const pathname = stripBasename(location.pathname, basename);
+        return pathname === null ? location : { ...location, pathname };
+    };
+
+    const add = (location: RouterLocation): RouterLocation => ({
+        ...location,
+        pathname: addBasename(location.pathname, basename),
+    });
+
+    return {
+        getLocation: () => strip(history.getLocation()),
+        push: (location) => history.push(add(location)),
+        replace: (location) => history.replace(add(location)),
+        go: (delta) => history.go(delta),
+        listen: (listener) => history.listen((location, delta) => listener(strip(location), delta)),
+        createHref: (location) => history.createHref(add(location)),
+    };
+};
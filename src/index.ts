@@ -1,2 +1,5 @@
 export * from './router';
+export * from './history';
+export * from './instrumentation';
+export * from './validation';
 // export * from './hooks';
@@ -0,0 +1,119 @@
+import { createPath } from './history';
+import type { NavigationEvent, NavigationEventListener } from './router';
+
+export interface NavigationLoggerOptions {
+    // Defaults to console.log
+    log?: (message: string, event: NavigationEvent) => void;
+    prefix?: string;
+}
+
+export interface PerformanceInstrumentationOptions {
+    // The prefix of every mark and measure name. Defaults to 'router'
+    prefix?: string;
+    // Defaults to the global performance
+    performance?: Pick<Performance, 'mark' | 'measure'>;
+}
+
+// HELPERS
+
+const formatDuration = (duration: number) => `${Math.round(duration)}ms`;
+
+/**
+ * A one line summary of an event, ie `resolverEnd #3 route-2 (user) success in 120ms`
+ */
+const describeEvent = (event: NavigationEvent) => {
+    const head = `${event.type} #${event.navigationId}`;
+
+    switch (event.type) {
+        case 'navigationStart':
+            return `${head} ${event.action} ${
+                event.from ? `${createPath(event.from)} -> ` : ''
+            }${createPath(event.location)}`;
+        case 'navigationEnd':
+            return `${head} ${createPath(event.location)} in ${formatDuration(event.duration)}`;
+        case 'navigationError':
+            return `${head} ${createPath(event.location)} failed at ${
+                event.routeId
+            } in ${formatDuration(event.duration)}`;
+        case 'redirect':
+            return `${head} ${event.routeId} -> ${createPath(event.to)}${
+                event.status ? ` (${event.status})` : ''
+            }`;
+        case 'guardEnd':
+        case 'resolverEnd':
+            return `${head} ${event.routeId}${event.routeName ? ` (${event.routeName})` : ''} ${
+                event.outcome
+            } in ${formatDuration(event.duration)}`;
+        default:
+            return `${head} ${event.routeId}${event.routeName ? ` (${event.routeName})` : ''}`;
+    }
+};
+
+// LOGGER
+
+/**
+ * A navigation event listener that logs every event as a single line. Pass it to
+ * router.instrument or the instrumentation prop of <Router />
+ */
+export const createNavigationLogger =
+    ({
+        // eslint-disable-next-line no-console
+        log = (message) => console.log(message),
+        prefix = '[router]',
+    }: NavigationLoggerOptions = {}): NavigationEventListener =>
+    (event) =>
+        log(`${prefix} ${describeEvent(event)}`, event);
+
+// PERFORMANCE
+
+/**
+ * A navigation event listener that records navigations, guards and resolvers as
+ * performance marks and measures, ie `router:navigation:3` or `router:resolver:3:route-2`.
+ * They show up in the browser devtools and can be read back with a PerformanceObserver
+ * to report route timings to your own metrics
+ */
+export const createPerformanceInstrumentation = ({
+    prefix = 'router',
+    performance: perf = typeof performance !== 'undefined' ? performance : undefined,
+}: PerformanceInstrumentationOptions = {}): NavigationEventListener => {
+    if (!perf) {
+        return () => null;
+    }
+
+    const measure = (name: string) => {
+        perf.mark(`${name}:end`);
+        try {
+            perf.measure(name, `${name}:start`, `${name}:end`);
+        } catch (error) {
+            // The start mark is missing, ie the listener was added mid navigation
+        }
+    };
+
+    return (event) => {
+        const navigation = `${prefix}:navigation:${event.navigationId}`;
+
+        switch (event.type) {
+            case 'navigationStart':
+                perf.mark(`${navigation}:start`);
+                break;
+            case 'navigationEnd':
+            case 'navigationError':
+                measure(navigation);
+                break;
+            case 'guardStart':
+                perf.mark(`${prefix}:guard:${event.navigationId}:${event.routeId}:start`);
+                break;
+            case 'guardEnd':
+                measure(`${prefix}:guard:${event.navigationId}:${event.routeId}`);
+                break;
+            case 'resolverStart':
+                perf.mark(`${prefix}:resolver:${event.navigationId}:${event.routeId}:start`);
+                break;
+            case 'resolverEnd':
+                measure(`${prefix}:resolver:${event.navigationId}:${event.routeId}`);
+                break;
+            default:
+                perf.mark(`${prefix}:redirect:${event.navigationId}:${event.routeId}`);
+        }
+    };
+};
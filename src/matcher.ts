@@ -0,0 +1,295 @@
+import { Key, pathToRegexp } from 'path-to-regexp';
+import type { MatchParams, RouteWithIds } from './router';
+
+// A mapping of path matchers (ie /profile/{id}/settings) to
+// a list of route ids that represent the routes to render
+// for a given path
+export type HierarchyMap = Record<string, string[]>;
+
+// The hierarchy of route ids to render for a path and the params parsed from it
+export interface RouteMatch {
+    hierarchy: string[];
+    params: MatchParams | null;
+}
+
+// A single renderable path of the routes tree, compiled once
+interface MatcherEntry {
+    pattern: string;
+    hierarchy: string[];
+    regex: RegExp;
+    keys: Key[];
+    scores: number[];
+    rank: number;
+    // Matches any path under the pattern. Used for lazy children that aren't loaded yet
+    prefix: boolean;
+}
+
+// The compiled routes tree. Entries are ranked by specificity so the
+// first entry that matches a path is always the most specific one
+export interface RouteMatcher {
+    entries: MatcherEntry[];
+    match: (path: string) => RouteMatch | null;
+}
+
+// Segment scores. A segment that doesn't exist ranks above optional
+// and wildcard segments, so /users beats /users/:id? for the path /users
+const STATIC_SCORE = 6;
+const PARAM_SCORE = 4;
+const MISSING_SCORE = 3;
+const OPTIONAL_SCORE = 2;
+const WILDCARD_SCORE = 0;
+
+// The name of the param holding the part of the path matched by a catch-all
+const WILDCARD_PARAM = '*';
+
+/**
+ * Allows you to merge two paths without thinking
+ * to hard about leading/trailing slashes
+ */
+export const mergePaths = (left: string, right: string) => {
+    const leftSlash = left.charAt(left.length - 1) === '/';
+    const rightSlash = right.charAt(0) === '/';
+    if (leftSlash && rightSlash) {
+        return left + right.substring(1);
+    }
+    if ((leftSlash && !rightSlash) || (!leftSlash && rightSlash)) {
+        return left + right;
+    }
+
+    return `${left}/${right}`;
+};
+
+/**
+ * Builds the hierarchy map from the routes object
+ */
+export const buildHierarchyMap = (routes: RouteWithIds[]): HierarchyMap => {
+    const map: HierarchyMap = {};
+    for (const route of routes) {
+        map[route.match] = [route.id];
+
+        if (route.children) {
+            const childMap = buildHierarchyMap(route.children);
+
+            for (const [childMatch, childHierarchy] of Object.entries(childMap)) {
+                // Index children match the exact path of their parent, like in the matcher.
+                // They take over the path of the parent, which renders through them
+                const isIndex = childMatch === '/' || childMatch === '';
+                const path = isIndex ? route.match : mergePaths(route.match, childMatch);
+                map[path] = [route.id, ...childHierarchy];
+            }
+        }
+    }
+
+    return map;
+};
+
+/**
+ * Turns a catch-all segment (ie `*` or `/admin/*`) into an optional unnamed
+ * group that path-to-regexp understands. Catch-alls are scoped to the
+ * path before them, so `/admin/*` only matches paths under /admin
+ */
+export const normalizeWildcard = (pattern: string) => {
+    if (pattern === '*') {
+        return '/(.*)?';
+    }
+
+    if (pattern.endsWith('/*')) {
+        return `${pattern.substring(0, pattern.length - 2)}/(.*)?`;
+    }
+
+    return pattern;
+};
+
+/**
+ * Scores each segment of a pattern. Static segments are the most specific
+ * followed by params, optional/repeated params and finally wildcards
+ */
+const scorePattern = (pattern: string): number[] =>
+    pattern
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => {
+            if (segment === '*' || segment.startsWith('(.*)')) {
+                return WILDCARD_SCORE;
+            }
+            if (segment.includes(':') || segment.includes('(')) {
+                return /[?*+]$/.test(segment) ? OPTIONAL_SCORE : PARAM_SCORE;
+            }
+            return STATIC_SCORE;
+        });
+
+/**
+ * Orders two entries by specificity, comparing segment by segment.
+ * Ties keep the order the routes were declared in
+ */
+const compareEntries = (a: MatcherEntry, b: MatcherEntry) => {
+    const length = Math.max(a.scores.length, b.scores.length);
+    for (let i = 0; i < length; i += 1) {
+        const aScore = a.scores[i] ?? MISSING_SCORE;
+        const bScore = b.scores[i] ?? MISSING_SCORE;
+        if (aScore !== bScore) {
+            return bScore - aScore;
+        }
+    }
+
+    return a.rank - b.rank;
+};
+
+/**
+ * Walks the routes tree and collects every renderable hierarchy. Routes with
+ * children can't be rendered on their own, so only their children are collected.
+ * Routes with lazy children that haven't loaded yet match every path under them
+ * so the children can be loaded and matched once they are needed
+ */
+const collectEntries = (
+    routes: RouteWithIds[],
+    parentPattern: string | null,
+    parentHierarchy: string[],
+    entries: { pattern: string; hierarchy: string[]; prefix: boolean }[]
+) => {
+    for (const route of routes) {
+        let pattern = route.match;
+        if (parentPattern !== null) {
+            // Index children match the exact path of their parent, ie /admin and not only /admin/
+            const isIndex = route.match === '/' || route.match === '';
+            pattern = isIndex ? parentPattern : mergePaths(parentPattern, route.match);
+        }
+        const hierarchy = [...parentHierarchy, route.id];
+
+        if (route.children) {
+            collectEntries(route.children, pattern, hierarchy, entries);
+        } else {
+            entries.push({ pattern, hierarchy, prefix: Boolean(route.lazyChildren) });
+        }
+    }
+
+    return entries;
+};
+
+/**
+ * The first static segment of a path or pattern, used to bucket entries
+ */
+const firstSegment = (path: string) => path.split('/').filter(Boolean)[0] ?? '';
+
+const execEntry = (entry: MatcherEntry, path: string): RouteMatch | null => {
+    const regexResult = entry.regex.exec(path);
+    if (!regexResult) {
+        return null;
+    }
+
+    const params: Record<string, string> = {};
+    entry.keys.forEach((key, i) => {
+        const value = regexResult[i + 1];
+        if (value !== undefined) {
+            params[typeof key.name === 'number' ? WILDCARD_PARAM : key.name] = value;
+        }
+    });
+
+    return { hierarchy: entry.hierarchy, params };
+};
+
+/**
+ * Compiles the routes tree into a matcher. Each renderable path is turned into
+ * a regex once and ranked by specificity. Entries are also bucketed by their first
+ * static segment so that only a fraction of a large route table is tested per match
+ */
+export const compileRoutes = (routes: RouteWithIds[]): RouteMatcher => {
+    const entries: MatcherEntry[] = collectEntries(routes, null, [], [])
+        .map(({ pattern, hierarchy, prefix }, rank) => {
+            const keys: Key[] = [];
+            const normalized = normalizeWildcard(pattern);
+            const scores = scorePattern(normalized);
+
+            return {
+                pattern,
+                hierarchy,
+                regex: pathToRegexp(normalized, keys, { end: !prefix }),
+                keys,
+                // A prefix ranks like a catch-all under its pattern
+                scores: prefix ? [...scores, WILDCARD_SCORE] : scores,
+                rank,
+                prefix,
+            };
+        })
+        .sort(compareEntries);
+
+    // Entries starting with a static segment go in a bucket for that segment. Everything
+    // else (params, wildcards, the index route) could match any path
+    const buckets = new Map<string, MatcherEntry[]>();
+    const dynamic: MatcherEntry[] = [];
+    entries.forEach((entry) => {
+        if (entry.scores[0] !== STATIC_SCORE) {
+            dynamic.push(entry);
+            return;
+        }
+
+        const segment = firstSegment(entry.pattern).toLowerCase();
+        const bucket = buckets.get(segment);
+        if (bucket) {
+            bucket.push(entry);
+        } else {
+            buckets.set(segment, [entry]);
+        }
+    });
+
+    const match = (path: string): RouteMatch | null => {
+        const bucket = buckets.get(firstSegment(path).toLowerCase()) || [];
+
+        // Both lists are already sorted by specificity, so walk them
+        // together to test candidates from most to least specific
+        let b = 0;
+        let d = 0;
+        while (b < bucket.length || d < dynamic.length) {
+            let next: MatcherEntry;
+            if (
+                d >= dynamic.length ||
+                (b < bucket.length && compareEntries(bucket[b], dynamic[d]) < 0)
+            ) {
+                next = bucket[b];
+                b += 1;
+            } else {
+                next = dynamic[d];
+                d += 1;
+            }
+
+            const result = execEntry(next, path);
+            if (result) {
+                return result;
+            }
+        }
+
+        return null;
+    };
+
+    return { entries, match };
+};
+
+const matcherCache = new WeakMap<RouteWithIds[], RouteMatcher>();
+const hierarchyMapCache = new WeakMap<RouteWithIds[], HierarchyMap>();
+
+/**
+ * The compiled matcher for a routes tree. Routes are static so
+ * they only ever need to be compiled once
+ */
+export const getRouteMatcher = (routes: RouteWithIds[]): RouteMatcher => {
+    let matcher = matcherCache.get(routes);
+    if (!matcher) {
+        matcher = compileRoutes(routes);
+        matcherCache.set(routes, matcher);
+    }
+
+    return matcher;
+};
+
+/**
+ * The hierarchy map for a routes tree, built once per routes tree
+ */
+export const getHierarchyMap = (routes: RouteWithIds[]): HierarchyMap => {
+    let hierarchyMap = hierarchyMapCache.get(routes);
+    if (!hierarchyMap) {
+        hierarchyMap = buildHierarchyMap(routes);
+        hierarchyMapCache.set(routes, hierarchyMap);
+    }
+
+    return hierarchyMap;
+};
@@ -0,0 +1,269 @@
+import { parsePath } from './history';
+import type {
+    LocationSetterParams,
+    NavigationAction,
+    RouterInstance,
+    RouterLocation,
+    RouterState,
+    RouteState,
+    RouteWithIds,
+} from './router';
+
+// The part of the router state mirrored into the store. Routes and the
+// hierarchy map are static so they stay in the router
+export interface RouterSliceState {
+    location: RouterLocation;
+    action: NavigationAction;
+    currentMatch: RouterState['currentMatch'];
+    routeStates: Record<string, RouteState>;
+}
+
+export interface RouteResolvedPayload {
+    routeId: string;
+    name?: string;
+    location: RouterLocation;
+    data: Record<string, any>;
+}
+
+export interface NavigationFailedPayload {
+    routeId: string;
+    name?: string;
+    location: RouterLocation;
+    error: unknown;
+}
+
+export type RouterAction =
+    | { type: typeof NAVIGATE; payload: string | LocationSetterParams }
+    | { type: typeof BACK }
+    | { type: typeof STATE_CHANGED; payload: RouterSliceState }
+    | { type: typeof ROUTE_RESOLVED; payload: RouteResolvedPayload }
+    | { type: typeof NAVIGATION_FAILED; payload: NavigationFailedPayload };
+
+// The bits of a redux store the integration needs. Any redux compatible store will do
+export interface RouterStore<S = any> {
+    getState: () => S;
+    dispatch: (action: any) => any;
+    subscribe: (listener: () => void) => () => void;
+}
+
+export type RouterMiddleware = (
+    store: Pick<RouterStore, 'getState' | 'dispatch'>
+) => (next: (action: any) => any) => (action: any) => any;
+
+export interface ConnectRouterOptions<S> {
+    // Where the routerReducer is mounted. Defaults to state.router
+    selectRouterState?: (state: S) => RouterSliceState | undefined;
+}
+
+// ACTIONS
+
+export const NAVIGATE = '@@router/NAVIGATE';
+export const BACK = '@@router/BACK';
+export const STATE_CHANGED = '@@router/STATE_CHANGED';
+export const ROUTE_RESOLVED = '@@router/ROUTE_RESOLVED';
+export const NAVIGATION_FAILED = '@@router/NAVIGATION_FAILED';
+
+/**
+ * Navigates to a path or location. Handled by the router middleware, paths are
+ * resolved by the router like links are, ie ?page=2 keeps the current pathname
+ */
+export const navigate = (to: string | LocationSetterParams): RouterAction => ({
+    type: NAVIGATE,
+    payload: to,
+});
+
+/**
+ * Navigates without adding a history entry. Handled by the router middleware
+ */
+export const replace = (to: string | LocationSetterParams): RouterAction => ({
+    type: NAVIGATE,
+    payload: { ...(typeof to === 'string' ? parsePath(to) : to), replace: true },
+});
+
+/**
+ * Goes back one history entry. Handled by the router middleware
+ */
+export const back = (): RouterAction => ({ type: BACK });
+
+/**
+ * Dispatched whenever the router state changes
+ */
+export const routerStateChanged = (payload: RouterSliceState): RouterAction => ({
+    type: STATE_CHANGED,
+    payload,
+});
+
+/**
+ * Dispatched once a route of the current match finished resolving
+ */
+export const routeResolved = (payload: RouteResolvedPayload): RouterAction => ({
+    type: ROUTE_RESOLVED,
+    payload,
+});
+
+/**
+ * Dispatched once a route of the current match failed guarding/resolving
+ */
+export const navigationFailed = (payload: NavigationFailedPayload): RouterAction => ({
+    type: NAVIGATION_FAILED,
+    payload,
+});
+
+// HELPERS
+
+const toSliceState = ({
+    location,
+    action,
+    currentMatch,
+    routeStates,
+}: RouterState): RouterSliceState => ({ location, action, currentMatch, routeStates });
+
+const findRouteById = (routes: RouteWithIds[], id: string): RouteWithIds | undefined => {
+    for (const route of routes) {
+        if (route.id === id) {
+            return route;
+        }
+
+        const child = route.children && findRouteById(route.children, id);
+        if (child) {
+            return child;
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Whether the store and the router are showing the same state
+ */
+const isSameState = (slice: RouterSliceState | undefined, state: RouterState) =>
+    !!slice &&
+    slice.location === state.location &&
+    slice.currentMatch === state.currentMatch &&
+    slice.routeStates === state.routeStates;
+
+/**
+ * The actions for the routes that finished or failed between two router states
+ */
+const getRouteActions = (previous: RouterState, state: RouterState): RouterAction[] =>
+    Object.keys(state.routeStates).reduce<RouterAction[]>((actions, routeId) => {
+        const routeState = state.routeStates[routeId];
+        const previousState = previous.routeStates[routeId];
+        if (routeState === previousState || !routeState.completed) {
+            return actions;
+        }
+
+        const { name } = findRouteById(state.routes, routeId) || {};
+        const { location } = state;
+
+        if (routeState.error != null) {
+            return previousState?.error === routeState.error
+                ? actions
+                : [
+                      ...actions,
+                      navigationFailed({ routeId, name, location, error: routeState.error }),
+                  ];
+        }
+
+        // Only new data counts, not ie a lazy component loading for resolved data
+        return previousState?.completed && previousState.resolvedData === routeState.resolvedData
+            ? actions
+            : [
+                  ...actions,
+                  routeResolved({ routeId, name, location, data: routeState.resolvedData }),
+              ];
+    }, []);
+
+// REDUCER
+
+/**
+ * Holds the router slice. Mount it at state.router or pass selectRouterState to connectRouter
+ */
+export const routerReducer = (
+    state: RouterSliceState | null = null,
+    action: { type: string; payload?: any }
+): RouterSliceState | null => (action.type === STATE_CHANGED ? action.payload : state);
+
+// MIDDLEWARE
+
+/**
+ * Handles the navigate, replace and back actions. The actions are passed on first so
+ * reducers and other middleware (ie sagas) see them before the router state changes
+ */
+export const createRouterMiddleware =
+    (router: RouterInstance): RouterMiddleware =>
+    () =>
+    (next) =>
+    (action) => {
+        const result = next(action);
+
+        if (action.type === NAVIGATE) {
+            router.navigate(action.payload);
+        } else if (action.type === BACK) {
+            router.history.go(-1);
+        }
+
+        return result;
+    };
+
+/**
+ * Keeps the store and the router in sync. Every router state change is dispatched
+ * along with routeResolved/navigationFailed actions for the routes it finished.
+ * When the store changes without the router, ie time travel in the devtools, the
+ * router (and the url) is moved to the state of the store. Returns a disconnect function
+ */
+export const connectRouter = <S = any>(
+    router: RouterInstance,
+    store: RouterStore<S>,
+    { selectRouterState = (state: any) => state.router }: ConnectRouterOptions<S> = {}
+) => {
+    let previous = router.getState();
+    store.dispatch(routerStateChanged(toSliceState(previous)));
+
+    // The slice the router was last synced with. Only a different slice moves the router,
+    // the store may well be behind while the router is notifying its subscribers
+    let syncedSlice = selectRouterState(store.getState());
+    let restoring = false;
+
+    const unsubscribeRouter = router.subscribe(() => {
+        const state = router.getState();
+        const actions = restoring ? [] : getRouteActions(previous, state);
+        previous = state;
+
+        if (!isSameState(selectRouterState(store.getState()), state)) {
+            store.dispatch(routerStateChanged(toSliceState(state)));
+        }
+        syncedSlice = selectRouterState(store.getState());
+
+        actions.forEach(store.dispatch);
+    });
+
+    const unsubscribeStore = store.subscribe(() => {
+        const slice = selectRouterState(store.getState());
+        if (!slice || slice === syncedSlice) {
+            return;
+        }
+
+        syncedSlice = slice;
+        if (isSameState(slice, router.getState())) {
+            return;
+        }
+
+        // The url follows without adding history entries. The restored route
+        // states are complete so the routes don't guard/resolve again
+        restoring = true;
+        router.setState((old) => ({
+            ...old,
+            location: slice.location,
+            currentMatch: slice.currentMatch,
+            routeStates: slice.routeStates,
+            action: 'replace',
+        }));
+        restoring = false;
+    });
+
+    return () => {
+        unsubscribeRouter();
+        unsubscribeStore();
+    };
+};
@@ -9,9 +9,39 @@ import React, {
     useRef,
     useState,
 } from 'react';
-import { pathToRegexp } from 'path-to-regexp';
-import { stringify } from 'query-string';
-import { nanoid } from 'nanoid';
+import { compile, Key, parse } from 'path-to-regexp';
+import { parse as parseQuery, ParsedQuery, stringify } from 'query-string';
+import {
+    addBasename,
+    createBrowserHistory,
+    createPath,
+    History,
+    HistoryListener,
+    parsePath,
+    stripBasename,
+    withBasename,
+} from './history';
+import { useSyncExternalStore } from './useSyncExternalStore';
+import {
+    getHierarchyMap,
+    getRouteMatcher,
+    HierarchyMap,
+    mergePaths,
+    normalizeWildcard,
+    RouteMatch,
+} from './matcher';
+import { formatRouteProblems, validateRoutes } from './validation';
+
+// Bundlers replace process.env.NODE_ENV, some (ie Vite) without defining process.
+// Reading it directly lets the replaced text win, there is no process in the browser otherwise
+declare const process: { env: { NODE_ENV?: string } };
+const isDevelopment = (() => {
+    try {
+        return process.env.NODE_ENV !== 'production';
+    } catch (error) {
+        return false;
+    }
+})();
 
 // From: https://stackoverflow.com/questions/40510611/typescript-interface-require-one-of-two-properties-to-exist
 type RequireAtLeastOne<T, Keys extends keyof T = keyof T> = Pick<T, Exclude<keyof T, Keys>> &
@@ -27,76 +57,312 @@ export type MatchParams = Record<string, string> | null;
 export interface RouterLocation {
     pathname: string;
     search: string;
+    hash?: string;
+    // Arbitrary data stored with the history entry
+    state?: unknown;
+    // Uniquely identifies the history entry. Set by the history
+    key?: string;
 }
 
-// The params needed by the useLocation setter func
-interface LocationSetterParams {
-    pathname?: string;
+// A location described by a route name instead of a pathname.
+// The pathname is built from the named routes `match`
+export interface NamedLocation {
+    name: string;
+    params?: PathParams;
     search?: Record<string, any> | string;
+    hash?: string;
+}
+
+// The params used to fill in a routes `match` when building a path
+export type PathParams = Record<string, string | number>;
+
+// How a navigation should be applied to the history
+export interface NavigationOptions {
+    // Replace the current history entry instead of pushing a new one
+    replace?: boolean;
+    // Stored with the history entry and readable through useLocation
+    state?: unknown;
+}
+
+// How the current location was reached. Used to decide
+// whether to push or replace the history entry
+export type NavigationAction = 'push' | 'replace' | 'pop';
+
+// The params needed by the useLocation setter func
+export type LocationSetterParams = (
+    | {
+          // Relative pathnames (ie `..` or `./edit`) are resolved against the current location
+          pathname?: string;
+          search?: Record<string, any> | string;
+          hash?: string;
+      }
+    | NamedLocation
+) &
+    NavigationOptions;
+
+// The raw search params as parsed from the search string
+export type ParsedSearch = ParsedQuery<string>;
+
+// Parses the raw search params of a route into typed values and
+// serializes them back. Ie { page: '2' } <=> { page: 2 }
+export interface SearchSchema<S> {
+    parse: (search: ParsedSearch) => S;
+    serialize?: (search: Partial<S>) => Record<string, any>;
+}
+
+export interface SearchParamsOptions extends NavigationOptions {
+    // `merge` keeps the current params that aren't being set (params set to
+    // null/undefined are deleted), `replace` replaces the whole search
+    mode?: 'merge' | 'replace';
 }
+
+// The setter returned by useSearchParams
+export type SearchParamsSetter<S> = (
+    search: Partial<S> | ((previous: S) => Partial<S>),
+    options?: SearchParamsOptions
+) => void;
 // The location setter function
 export type LocationChanger = (params: LocationSetterParams) => void;
 
 // Guards
 export type Guards = ArrayGuards;
 type ArrayGuards = Guard[];
-export type Guard = (params: GuardParams) => Promise<any>;
+export type Guard = (params: GuardParams) => Promise<GuardResult | void>;
+// What a guard decided. Resolving with nothing allows the navigation too
+export type GuardResult =
+    | { type: 'allow' }
+    | { type: 'deny'; reason?: unknown }
+    | { type: 'redirect'; to: LocationSetterParams; status: number; replace: boolean };
+// The error of a route whose guard denied the navigation
+export type GuardDeniedError = Error & { reason: unknown };
+
+// Leave guards. Resolving with false keeps the user on the route
+export type CanDeactivate = (params: CanDeactivateParams) => boolean | Promise<boolean>;
+export interface CanDeactivateParams {
+    route: Route;
+    transition: Transition;
+    // The resolved data of the route being left
+    data: Record<string, any>;
+}
+
+// A navigation that is about to happen. Passed to leave guards and blockers
+export interface Transition {
+    from: RouterLocation;
+    to: RouterLocation;
+    action: NavigationAction;
+}
+
+// Decides whether a blocker stops a navigation
+export type BlockerPredicate = (transition: Transition) => boolean;
+
+// The state of a useBlocker. A blocked navigation waits for proceed or reset
+export interface Blocker {
+    state: 'unblocked' | 'blocked';
+    transition: Transition | null;
+    proceed: () => void;
+    reset: () => void;
+}
 export interface GuardParams {
     route: Route;
     redirect: LocationChanger;
     location: RouterLocation;
+    // The resolved data of every parent route
+    data: Record<string, any>;
+    // Aborted once the navigation is superseded or the route is left
+    signal: AbortSignal;
 }
 
 // Resolvers
 export type Resolvers = ArrayResolvers;
 type ArrayResolvers = ObjectResolvers[];
-type ObjectResolvers = Record<string, any>;
+type ObjectResolvers = Record<string, Resolver>;
 export type Resolver = (params: ResolverParams) => Promise<any>;
 export interface ResolverParams {
     route: Route;
     redirect: LocationChanger;
     location: RouterLocation;
+    // The resolved data of every parent route and of the earlier resolver stages
+    data: Record<string, any>;
+    // Aborted once nothing is waiting for the data anymore
+    signal: AbortSignal;
+}
+
+// Anything about a route layouts need. The title and tags are what <RouteHead /> renders
+export interface RouteMeta {
+    title?: string;
+    // <meta> tags by name, ie { description: 'All about you' }
+    tags?: Record<string, string>;
+    [key: string]: unknown;
+}
+export interface RouteMetaParams {
+    params: MatchParams;
+    location: RouterLocation;
+    // The resolved data of the route and its parents. Empty until resolved
+    data: Record<string, any>;
 }
 
+// Code splitting. Ie `lazy: () => import('./Page')`
+type ModuleOr<T> = { default: T } | T;
+export type LazyComponent = () => Promise<ModuleOr<React.ComponentType<any>>>;
+export type LazyChildren = () => Promise<ModuleOr<Route[]>>;
+
 // Route structure
 type ComponentOrChildren = RequireAtLeastOne<{
     component: React.ComponentType<any>;
+    // Named views rendered by the <Outlet name="..." /> of the parent routes. The main
+    // view is the same as the component, the others go to the outlet of the same name
+    components: Record<string, React.ComponentType<any>>;
     children: Route[];
+    // Loaded in parallel with the routes guards and resolvers
+    lazy: LazyComponent;
+    // Loaded when a path under this route is matched
+    lazyChildren: LazyChildren;
 }>;
 export type RouteWithoutIds = {
     match: string;
+    name?: string;
     resolvers?: Resolvers;
     guards?: Guards;
+    errorComponent?: React.ComponentType<RouteErrorComponentProps>;
+    // Rendered instead of the component while the route is guarding/resolving
+    pendingComponent?: React.ComponentType<RoutePendingComponentProps>;
+    // How long to wait before showing the pendingComponent
+    pendingMs?: number;
+    // Once shown, the minimum time to show the pendingComponent for
+    pendingMinMs?: number;
+    searchSchema?: SearchSchema<any>;
+    // Set to false to leave the scroll position alone when navigating to this route
+    scrollRestoration?: boolean;
+    // Overrides the key scroll positions are saved under for this route
+    getScrollKey?: GetScrollKey;
+    // The params and search keys the resolvers depend on. The resolvers run again
+    // when one of them changes. Defaults to every param in the routes path
+    resolverDeps?: { params?: string[]; search?: string[] };
+    // How long resolved data is reused for instead of resolving again, in ms
+    staleTime?: number;
+    // How long resolved data no route is using is kept around for, in ms
+    gcTime?: number;
+    // Guards and resolves without waiting for the parent routes. The guards and
+    // resolvers of the route don't get the data of its parents
+    independent?: boolean;
+    // Run before leaving the route. Any of them resolving with false cancels the navigation
+    canDeactivate?: CanDeactivate[];
+    // Ie a title, breadcrumb label or analytics tags. Read back with useMatches
+    meta?: RouteMeta | ((params: RouteMetaParams) => RouteMeta);
 } & ComponentOrChildren;
 
-type RouteWithIds = {
+export type RouteWithIds = {
     id: string;
     children?: RouteWithIds[];
 } & RouteWithoutIds;
 export type Route = RouteWithIds | RouteWithoutIds;
 
+// Typed routes. These carry the literal `match` and the resolvers tuple
+// so params and resolved data can be inferred from the route definition
+
+// Black magic https://stackoverflow.com/questions/50374908/transform-union-type-to-intersection-type
+type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (k: infer I) => void
+    ? I
+    : never;
+type Simplify<T> = { [K in keyof T]: T[K] };
+type Unpromise<T> = T extends Promise<infer U> ? U : T;
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+// Strips custom patterns (ie :id(\\d+)) and modifiers from a param and
+// marks params with a ? or * modifier as optional
+type ParamName<P extends string> = P extends `${infer N}(${string}` ? ParamName<N> : P;
+type ParamRecord<P extends string> = ParamName<P> extends `${infer N}?`
+    ? { [K in N]?: string }
+    : ParamName<P> extends `${infer N}*`
+    ? { [K in N]?: string }
+    : ParamName<P> extends `${infer N}+`
+    ? { [K in N]: string }
+    : ParamName<P> extends ''
+    ? {}
+    : { [K in ParamName<P>]: string };
+
+// Handles segments with more than one param, ie /:file.:ext
+type SegmentParams<S extends string> = S extends `${infer P}.:${infer Rest}`
+    ? ParamRecord<P> & SegmentParams<Rest>
+    : S extends `${infer P}-:${infer Rest}`
+    ? ParamRecord<P> & SegmentParams<Rest>
+    : ParamRecord<S>;
+
+// The params for a `match` string. Ie '/users/:id/posts/:postId?' => { id: string; postId?: string }
+export type ExtractParams<M extends string> = Simplify<
+    M extends `${string}:${infer Segment}/${infer Rest}`
+        ? SegmentParams<Segment> & ExtractParams<`/${Rest}`>
+        : M extends `${string}:${infer Segment}`
+        ? SegmentParams<Segment>
+        : {}
+>;
+
+type ResolvedStage<O> = {
+    [K in keyof O]: O[K] extends (...args: any[]) => infer R ? Unpromise<R> : never;
+};
+
+// The resolvedData for a list of resolvers. Every stage is merged into one object
+export type ResolvedData<R> = R extends readonly (infer O)[]
+    ? Simplify<UnionToIntersection<ResolvedStage<O>>>
+    : {};
+
+// R is only inferred as the constraint when there are no resolvers. It can't default to
+// [] instead, a default is used as soon as a resolver needs its params typed by context
+type NoResolvers<R extends Resolvers> = Resolvers extends R ? [] : R;
+
+export type TypedRoute<
+    M extends string,
+    R extends Resolvers,
+    S = Record<string, any>
+> = RouteWithoutIds & {
+    match: M;
+    resolvers?: R;
+    searchSchema?: SearchSchema<S>;
+};
+
 //
 // The router state. Should always be in sync with the url
-interface RouterState {
+export interface RouterState {
     routes: RouteWithIds[];
     location: RouterLocation;
     currentMatch: { hierarchy: string[]; params: MatchParams | null };
     hierarchyMap: HierarchyMap;
     routeStates: Record<string, RouteState>;
+    action: NavigationAction;
+    // Set while a modal route is rendered over the page it was opened from
+    background?: BackgroundState;
 }
 
-// A mapping of path matchers (ie /profile/{id}/settings) to
-// a list of route ids that represent the routes to render
-// for a given path
-type HierarchyMap = Record<string, string[]>;
+// The page a modal route is rendered over. It keeps its own match and routeStates
+export interface BackgroundState {
+    location: RouterLocation;
+    currentMatch: RouterState['currentMatch'];
+    routeStates: Record<string, RouteState>;
+}
 
 // Route state that tracks a routes guarding and resolving status
 export type RouteState = {
     loading: boolean;
     resolvedData: Record<string, any>;
     completed: boolean;
+    // Whatever a guard or resolver rejected with. Null if preloading succeeded
+    error: unknown;
+    // The params and search values the resolvedData was resolved for
+    key?: string;
 };
 
+// Decides which routes useRevalidate refreshes. A route name or a predicate
+export type RevalidateTarget = string | ((route: RouteWithIds) => boolean);
+
+// The JSON safe version of the RouterState. Created on the server with
+// dehydrateRouterState and turned back into a RouterState on the client
+// with hydrateRouterState
+export interface DehydratedRouterState {
+    location: RouterLocation;
+    currentMatch: { hierarchy: string[]; params: MatchParams | null };
+    routeStates: Record<string, RouteState>;
+}
+
 // The props passed to each route component. Ie the `component` property on each Route
 // will get these.
 export type RouteComponentProps = {
@@ -105,16 +371,204 @@ export type RouteComponentProps = {
     children?: ReactNode;
 };
 
+// The props passed to a routes `errorComponent` when the route, or one of its
+// children without an errorComponent, failed guarding/resolving
+export type RouteErrorComponentProps = {
+    route: RouteWithIds;
+    error: unknown;
+    // Guards and resolves the failed route again
+    retry: () => void;
+};
+
+// The props passed to a routes `pendingComponent`
+export type RoutePendingComponentProps = {
+    route: RouteWithIds;
+};
+
+// How the router renders a navigation while the new routes are preloading.
+// `immediate` renders the new routes right away, `keep-previous` keeps the
+// current routes on screen until the new routes have finished preloading
+export type TransitionMode = 'immediate' | 'keep-previous';
+
+// The status of the latest navigation. The location is the location being
+// navigated to while loading
+export interface NavigationState {
+    state: 'idle' | 'loading';
+    location: RouterLocation | null;
+}
+
+// The key a scroll position is saved under. Defaults to the key of the history
+// entry, return ie the pathname to share one position between entries
+export type GetScrollKey = (location: RouterLocation) => string;
+
+export interface ScrollRestorationProps {
+    getScrollKey?: GetScrollKey;
+    // Where the positions are persisted so they survive reloads
+    storageKey?: string;
+}
+
+// What preloadPath ran into. Redirects carry the status code to respond with, ie 302
+export type PreloadPathResult =
+    | { type: 'success'; routerState: RouterState; head: RouteHeadData }
+    | { type: 'redirect'; location: RouterLocation; status: number };
+
+// A route of the current match, as returned by useMatches
+export interface MatchedRoute {
+    id: string;
+    route: RouteWithIds;
+    params: MatchParams;
+    meta: RouteMeta;
+    state: RouteState;
+}
+
+// The document head for the current match. The deepest title wins,
+// tags of deeper routes override the tags of their parents
+export interface RouteHeadData {
+    title?: string;
+    tags: Record<string, string>;
+}
+
+// What every navigation event carries. Navigations are numbered in the order they start,
+// times are milliseconds from performance.now() (or Date.now() without it)
+interface NavigationEventBase {
+    navigationId: number;
+    location: RouterLocation;
+    params: MatchParams;
+    time: number;
+}
+
+// The guard and resolver events of a single route in the navigation
+interface RouteEventBase extends NavigationEventBase {
+    routeId: string;
+    routeName?: string;
+}
+
+export type GuardOutcome = 'allow' | 'deny' | 'redirect' | 'error' | 'aborted';
+export type ResolverOutcome = 'success' | 'error' | 'aborted';
+
+export type NavigationEvent =
+    | (NavigationEventBase & {
+          type: 'navigationStart';
+          from: RouterLocation | null;
+          action: NavigationAction;
+          routeIds: string[];
+      })
+    | (RouteEventBase & { type: 'guardStart' })
+    | (RouteEventBase & { type: 'guardEnd'; duration: number; outcome: GuardOutcome })
+    | (RouteEventBase & { type: 'resolverStart' })
+    | (RouteEventBase & { type: 'resolverEnd'; duration: number; outcome: ResolverOutcome })
+    | (RouteEventBase & { type: 'redirect'; to: RouterLocation; status?: number })
+    | (NavigationEventBase & { type: 'navigationEnd'; routeIds: string[]; duration: number })
+    | (NavigationEventBase & {
+          type: 'navigationError';
+          routeId: string;
+          error: unknown;
+          duration: number;
+      });
+
+export type NavigationEventListener = (event: NavigationEvent) => void;
+
+// The options of createRouter. The history defaults to the browser history
+export interface RouterOptions {
+    routes: Route[];
+    history?: History;
+    // The path the app is served from, ie /app. Routes match the path after it
+    basename?: string;
+    // Ie the state from preloadPath or hydrateRouterState
+    initialState?: RouterState;
+    // Listeners that should also get the events of the initial navigation
+    instrumentation?: NavigationEventListener[];
+    // Defaults to true. Pass false to create the router without side effects and call start later
+    autoStart?: boolean;
+}
+
+// A router that works without React. See createRouter
+export interface RouterInstance {
+    history: History;
+    getState: () => RouterState;
+    // Replaces the state. Meant for integrations, ie restoring a state. Use navigate to navigate
+    setState: (update: RouterState | ((previous: RouterState) => RouterState)) => void;
+    // Called after every state change
+    subscribe: (listener: () => void) => () => void;
+    // Navigates unless a leave guard or blocker stops it. Resolves with whether it did,
+    // a navigation dropped for a newer one before it was confirmed resolves with false
+    navigate: (to: string | LocationSetterParams) => Promise<boolean>;
+    // Loads the lazy chunks and resolver data of a location ahead of navigating to it
+    preload: (to: string | RouterLocation) => Promise<void>;
+    // Throws away cached resolver data and resolves the matching routes of the current match again
+    invalidate: (target?: RevalidateTarget) => Promise<void>;
+    block: (blocker: NavigationBlocker) => () => void;
+    // Called with the lifecycle events of every navigation, ie for logging or metrics
+    instrument: (listener: NavigationEventListener) => () => void;
+    // Listens to the history and guards/resolves the current match. Does nothing when already
+    // started. Returns a function that stops listening and aborts all preloading until restarted
+    start: () => () => void;
+    // Stops the router for good
+    dispose: () => void;
+}
+
+// A failed route in the current match and the route that handles its error.
+// The handler is the nearest route (the failed route itself or an ancestor)
+// with an errorComponent
+export interface RouteError {
+    route: RouteWithIds;
+    error: unknown;
+    handler: RouteWithIds | null;
+}
+
+// Loaded lazy components and children. Keyed by the loader so every route
+// sharing a loader shares the result
+const lazyComponents = new WeakMap<LazyComponent, React.ComponentType<any>>();
+const lazyChildrenPromises = new WeakMap<LazyChildren, Promise<Route[]>>();
+
+// Resolved data per route definition and resolver key. Pending
+// entries have no resolvedAt and are shared by everyone asking for them
+interface ResolverCacheEntry {
+    promise: Promise<Record<string, any>>;
+    resolvedAt: number | null;
+    lastUsed: number;
+    // Loaded ahead of a navigation and not used by one yet
+    prefetched: boolean;
+    // Aborts the resolvers once every user of a pending entry has been aborted
+    controller: AbortController;
+    users: number;
+}
+const resolverCache = new WeakMap<Route, Map<string, ResolverCacheEntry>>();
+
+const DEFAULT_STALE_TIME = 0;
+const DEFAULT_GC_TIME = 5 * 60 * 1000;
+// Prefetched data stays fresh at least this long so the navigation can use it
+const PREFETCH_STALE_TIME = 30000;
+
+// The original route definition (ie the object passed to createRoute) for
+// each route with ids. Used by the typed hooks to find a routes id
+const routeDefinitions = new WeakMap<RouteWithIds, Route>();
+
 const RouterContext = createContext<
     [RouterState | null, React.Dispatch<React.SetStateAction<RouterState>> | null]
 >([null, null]);
 
+const RouterInstanceContext = createContext<RouterInstance | null>(null);
+
+const NavigationContext = createContext<NavigationState>({ state: 'idle', location: null });
+
+// The views a route component renders through <Outlet />, by outlet name
+const OutletContext = createContext<Record<string, ReactNode>>({});
+
+// The outlet the matched child renders in, the same as the children of a route component
+const MAIN_OUTLET = 'main';
+
+const DEFAULT_SCROLL_STORAGE_KEY = 'real-router-scroll-positions';
+
+const DEFAULT_PENDING_MS = 1000;
+const DEFAULT_PENDING_MIN_MS = 500;
+
 // HELPERS
 
-const cancellablePromise = (promise: Promise<any>) => {
+const cancellablePromise = <T,>(promise: Promise<T>) => {
     let isCancelled = false;
 
-    const wrappedPromise = new Promise((resolve, reject) => {
+    const wrappedPromise = new Promise<T>((resolve, reject) => {
         promise
             .then((...args) => !isCancelled && resolve(...args))
             .catch((error) => !isCancelled && reject(error));
@@ -128,48 +582,148 @@ const cancellablePromise = (promise: Promise<any>) => {
     };
 };
 
+// A blocker registered with the router, ie by useBlocker
+export interface NavigationBlocker {
+    shouldBlock: BlockerPredicate;
+    block: (transition: Transition, proceed: () => void, reset: () => void) => void;
+}
+
 /**
- * Allows you to merge two paths without thinking
- * to hard about leading/trailing slashes
+ * Decides whether navigations may happen. Leave guards of the routes being left run first,
+ * then the first blocker whose predicate matches pauses the navigation until it proceeds or
+ * resets. Only the latest navigation can go through, older ones are dropped
  */
-const mergePaths = (left: string, right: string) => {
-    const leftSlash = left.charAt(left.length - 1) === '/';
-    const rightSlash = right.charAt(0) === '/';
-    if (leftSlash && rightSlash) {
-        return left + right.substring(1);
-    }
-    if ((leftSlash && !rightSlash) || (!leftSlash && rightSlash)) {
-        return left + right;
+const createNavigationBlockers = () => {
+    let blockers: NavigationBlocker[] = [];
+    let latest = 0;
+
+    const runBlockers = (transition: Transition, proceed: () => void, cancel: () => void) => {
+        const blocker = blockers.find((entry) => entry.shouldBlock(transition));
+        if (blocker) {
+            blocker.block(transition, proceed, cancel);
+        } else {
+            proceed();
+        }
+    };
+
+    return {
+        add(blocker: NavigationBlocker) {
+            blockers.push(blocker);
+
+            return () => {
+                blockers = blockers.filter((b) => b !== blocker);
+            };
+        },
+        confirm(
+            transition: Transition,
+            leaving: { route: RouteWithIds; state?: RouteState }[],
+            proceed: () => void,
+            cancel: () => void,
+            drop: () => void = () => null
+        ) {
+            latest += 1;
+            const id = latest;
+            const ifLatest = (fn: () => void) => () => {
+                if (id === latest) fn();
+                else drop();
+            };
+
+            const results = leaving.reduce<(boolean | Promise<boolean>)[]>(
+                (found, { route, state }) => [
+                    ...found,
+                    ...(route.canDeactivate || []).map((canDeactivate) =>
+                        canDeactivate({ route, transition, data: state?.resolvedData || {} })
+                    ),
+                ],
+                []
+            );
+
+            // Navigations stay synchronous when there is nothing to wait for
+            if (results.every((result) => result === true)) {
+                runBlockers(transition, ifLatest(proceed), ifLatest(cancel));
+                return;
+            }
+
+            Promise.all(results).then((allowed) => {
+                if (id !== latest) {
+                    drop();
+                    return;
+                }
+
+                if (allowed.every(Boolean)) {
+                    runBlockers(transition, ifLatest(proceed), ifLatest(cancel));
+                } else {
+                    cancel();
+                }
+            }, ifLatest(cancel));
+        },
+    };
+};
+
+/**
+ * The routes of the current match that a navigation to a location leaves
+ */
+const findLeavingRoutes = (routerState: RouterState, to: RouterLocation) => {
+    const { routes, currentMatch, routeStates } = routerState;
+    const next = getRouteMatcher(routes).match(to.pathname);
+    const nextHierarchy = next?.hierarchy || [];
+
+    return mapHierarchyToRoutes(currentMatch.hierarchy, routes)
+        .filter((route) => !nextHierarchy.includes(route.id))
+        .map((route) => ({ route, state: routeStates[route.id] }));
+};
+
+/**
+ * The routeState of a route that has not been guarded/resolved yet
+ */
+const initialRouteState = (route: Route, key?: string): RouteState => ({
+    loading: needsPreloading(route),
+    resolvedData: {},
+    completed: false,
+    error: null,
+    key,
+});
+
+/**
+ * Whether every route in the current match has finished loading
+ */
+const isRouterStateReady = (routerState: RouterState) => {
+    // Lazy children that failed to load are ready to show their error
+    const unloaded = findUnloadedMatch(routerState);
+    if (unloaded && routerState.routeStates[unloaded.id]?.error == null) {
+        return false;
     }
 
-    return `${left}/${right}`;
+    return routerState.currentMatch.hierarchy.every(
+        (id) => !routerState.routeStates[id] || !routerState.routeStates[id].loading
+    );
 };
 
 /**
- * Given a path, grab the associated hierarchy from
- * the hierarchy map
- */
-const matchHierarchy = (
-    path: string,
-    hierarchyMap: HierarchyMap
-): { hierarchy: string[]; params: MatchParams | null } => {
-    for (const [matchPath, hierarchy] of Object.entries(hierarchyMap)) {
-        if (typeof matchPath === 'string') {
-            if (matchPath === '*') {
-                return { hierarchy, params: null };
-            }
+ * Finds the first failed route in a list of matched routes and the
+ * nearest route that can render its error
+ */
+const findRouteError = (
+    routeList: RouteWithIds[],
+    routeStates: Record<string, RouteState>
+): RouteError | null => {
+    const failedIndex = routeList.findIndex(
+        (route) => routeStates[route.id] && routeStates[route.id].error != null
+    );
+    if (failedIndex === -1) {
+        return null;
+    }
 
-            const [regexMatch, params] = matchesRegex(path, matchPath);
-            if (regexMatch) {
-                return { hierarchy, params };
-            }
+    let handler: RouteWithIds | null = null;
+    for (let i = failedIndex; i >= 0; i -= 1) {
+        if (routeList[i].errorComponent) {
+            handler = routeList[i];
+            break;
         }
     }
 
-    // eslint-disable-next-line
-    console.error('No route found');
-
-    return { hierarchy: [], params: null };
+    const route = routeList[failedIndex];
+    return { route, error: routeStates[route.id].error, handler };
 };
 
 /**
@@ -178,86 +732,212 @@ const matchHierarchy = (
 const needsPreloading = (route: Route): boolean => {
     const hasGuards = route.guards && route.guards.length > 0;
     const hasResolvers = route.resolvers && route.resolvers.length > 0;
+    const hasLazyComponent = route.lazy && !lazyComponents.has(route.lazy);
 
-    return Boolean(hasGuards || hasResolvers);
+    return Boolean(hasGuards || hasResolvers || hasLazyComponent);
 };
 
 /**
- * Builds the hierarchy map from the routes object
+ * The component of a route, if it has one and it has been loaded
  */
-const buildHierarchyMap = (routes: RouteWithIds[]): HierarchyMap => {
-    const map: HierarchyMap = {};
-    for (const route of routes) {
+const getRouteComponent = (route: Route) =>
+    route.component ||
+    route.components?.[MAIN_OUTLET] ||
+    (route.lazy && lazyComponents.get(route.lazy));
+
+/**
+ * Loads the lazy component of a route. Resolves right away for routes without one
+ */
+const loadLazyComponent = (route: Route): Promise<void> => {
+    const { lazy } = route;
+    if (!lazy || lazyComponents.has(lazy)) {
+        return Promise.resolve();
+    }
+
+    return lazy().then((module) => {
+        lazyComponents.set(lazy, 'default' in module ? module.default : module);
+    });
+};
+
+/**
+ * Whether a route has lazy children that haven't been loaded into the routes tree yet
+ */
+const hasUnloadedChildren = (route: Route) => Boolean(route.lazyChildren && !route.children);
+
+/**
+ * Swaps the route with the given id for a new one anywhere in the routes tree
+ */
+const replaceRoute = (
+    routes: RouteWithIds[],
+    id: string,
+    replacement: RouteWithIds
+): RouteWithIds[] =>
+    routes.map((route) => {
+        if (route.id === id) {
+            return replacement;
+        }
+
         if (route.children) {
-            const childMap = buildHierarchyMap(route.children);
+            return { ...route, children: replaceRoute(route.children, id, replacement) };
+        }
+
+        return route;
+    });
 
-            for (const [childMatch, childHierarchy] of Object.entries(childMap)) {
-                map[mergePaths(route.match, childMatch)] = [route.id, ...childHierarchy];
+/**
+ * Loads the lazy children of a route and returns the routes tree with the children in place
+ */
+const loadLazyChildren = async (
+    routes: RouteWithIds[],
+    route: RouteWithIds
+): Promise<RouteWithIds[]> => {
+    const { lazyChildren } = route;
+    if (!lazyChildren) {
+        return routes;
+    }
+
+    let promise = lazyChildrenPromises.get(lazyChildren);
+    if (!promise) {
+        promise = lazyChildren().then(
+            (module) => ('default' in module ? module.default : module),
+            (error) => {
+                // Allow loading again, ie on retry
+                lazyChildrenPromises.delete(lazyChildren);
+                throw error;
             }
+        );
+        lazyChildrenPromises.set(lazyChildren, promise);
+    }
+
+    const children = addIdsToRoutes(await promise, route.id);
+    const loadedRoute = { ...route, children };
+    routeDefinitions.set(loadedRoute, routeDefinitions.get(route) || route);
+
+    return replaceRoute(routes, route.id, loadedRoute);
+};
+
+/**
+ * The last route of the current match if its lazy children still need loading
+ */
+const findUnloadedMatch = (routerState: RouterState): RouteWithIds | null => {
+    const routeList = mapHierarchyToRoutes(routerState.currentMatch.hierarchy, routerState.routes);
+    const last = routeList[routeList.length - 1];
+
+    return last && hasUnloadedChildren(last) ? last : null;
+};
+
+/**
+ * Keeps loading lazy children until the current match is complete.
+ * A lazily loaded subtree can itself contain lazy children. Children that
+ * fail to load become the error of their route, like they do on the client
+ */
+const resolveLazyMatch = async (routerState: RouterState): Promise<RouterState> => {
+    let state = routerState;
+    let unloaded = findUnloadedMatch(state);
+
+    while (unloaded) {
+        const { id } = unloaded;
+        let routes: RouteWithIds[];
+        try {
+            // eslint-disable-next-line
+            routes = await loadLazyChildren(state.routes, unloaded);
+        } catch (error) {
+            return {
+                ...state,
+                routeStates: {
+                    ...state.routeStates,
+                    [id]: {
+                        ...state.routeStates[id],
+                        loading: false,
+                        resolvedData: {},
+                        completed: true,
+                        error,
+                    },
+                },
+            };
         }
 
-        map[route.match] = [route.id];
+        state = routerStateFromLocation(routes, state.location, state, state.action);
+        unloaded = findUnloadedMatch(state);
     }
 
-    return map;
+    return state;
 };
 
 /**
- * Checks if a path matches a path matcher and returns the
- * url params if the path matches
+ * Given a path, grab the associated hierarchy from
+ * the compiled routes
  */
-const matchesRegex = (path: string, matchPath: string): [boolean, MatchParams] => {
-    const keys: any[] = [];
+const matchHierarchy = (path: string, routes: RouteWithIds[]): RouteMatch => {
+    const match = getRouteMatcher(routes).match(path);
+    if (match) {
+        return match;
+    }
 
-    // TODO: cache
-    const regex = pathToRegexp(matchPath, keys);
-    const regexResult = regex.exec(path);
+    // eslint-disable-next-line
+    console.error(`No route found for ${path}`);
 
-    if (!regexResult) {
-        return [false, null];
-    }
+    return { hierarchy: [], params: null };
+};
 
-    const params = keys.reduce((p, key, i) => {
-        // eslint-disable-next-line
-        p[key.name] = regexResult[i + 1];
-        return p;
-    }, {});
+/**
+ * The names of the params in a path pattern, ie /users/:id/* => ['id', '*']
+ */
+const getParamNames = (pattern: string) => {
+    const names = (pattern.match(/:\w+/g) || []).map((name) => name.substring(1));
+    return pattern.includes('*') ? [...names, '*'] : names;
+};
 
-    return [true, params];
+/**
+ * The resolver key of every route in a matched route list. Two locations with the
+ * same key for a route share that routes resolved data
+ */
+const getResolverKeys = (routeList: Route[], params: MatchParams, search: string) => {
+    const searchValues = parseQuery(search);
+
+    let pattern = '';
+    return routeList.map((route) => {
+        pattern = mergePaths(pattern, route.match);
+
+        const paramNames = route.resolverDeps?.params ?? getParamNames(pattern);
+        const searchNames = route.resolverDeps?.search ?? [];
+
+        return JSON.stringify([
+            paramNames.map((name) => params?.[name] ?? null),
+            searchNames.map((name) => searchValues[name] ?? null),
+        ]);
+    });
 };
 
 /**
  * Converts a location into a clean routerState object
- *
- * This function is expensive and should only be called when necessary
  */
 const routerStateFromLocation = (
     routes: RouteWithIds[],
     location: RouterLocation,
-    previous?: RouterState
+    previous?: RouterState,
+    action: NavigationAction = 'pop'
 ): RouterState => {
-    const hierarchyMap = buildHierarchyMap(routes);
-    const currentMatch = matchHierarchy(location.pathname, hierarchyMap);
-
-    // Copy routeStates if the route still exists
-    // in the hierarchy
+    const hierarchyMap = getHierarchyMap(routes);
+    const currentMatch = matchHierarchy(location.pathname, routes);
+    const routeList = mapHierarchyToRoutes(currentMatch.hierarchy, routes);
+    const keys = getResolverKeys(routeList, currentMatch.params, location.search);
+
+    // Copy routeStates if the route still exists in the hierarchy
+    // and was resolved for the same params and search. Closing a modal
+    // goes back to the routeStates of its background
     const routeStates: Record<string, RouteState> = {};
-    Object.entries(previous?.routeStates || {}).forEach(([id, state]) => {
-        if (currentMatch.hierarchy.includes(id)) {
-            routeStates[id] = state;
-        }
+    routeList.forEach((route, i) => {
+        const state = [
+            previous?.routeStates[route.id],
+            previous?.background?.routeStates[route.id],
+        ].find((previousState) => previousState && previousState.key === keys[i]);
+        routeStates[route.id] = state || initialRouteState(route, keys[i]);
     });
 
-    // Init new routeStates
-    mapHierarchyToRoutes(currentMatch.hierarchy, routes).forEach((route) => {
-        if (!(route.id in routeStates)) {
-            routeStates[route.id] = {
-                loading: needsPreloading(route),
-                resolvedData: {},
-                completed: false,
-            };
-        }
-    });
+    // Only navigations within the app render over a background. Direct
+    // visits, reloads and the server have no previous state
+    const backgroundLocation = previous && getBackgroundLocation(location);
 
     return {
         routes,
@@ -265,16 +945,55 @@ const routerStateFromLocation = (
         currentMatch,
         hierarchyMap,
         routeStates,
+        action,
+        ...(backgroundLocation
+            ? { background: backgroundFromLocation(routes, backgroundLocation, previous) }
+            : {}),
     };
 };
 
 /**
- * Converts a location into a RouerLocation
+ * The location a modal route is rendered over, passed along as
+ * the navigation state, ie `state: { background: location }`
  */
-const getRouterLocationFromLocation = (location: Location): RouterLocation => ({
-    pathname: location.pathname,
-    search: location.search,
-});
+const getBackgroundLocation = (location: RouterLocation): RouterLocation | null => {
+    const background = (location.state as { background?: RouterLocation } | null | undefined)
+        ?.background;
+
+    return background && typeof background.pathname === 'string' ? background : null;
+};
+
+const isSamePath = (a: RouterLocation, b: RouterLocation) =>
+    a.pathname === b.pathname && a.search === b.search;
+
+/**
+ * The background state for a modal route. Opening a modal keeps the page it was opened from
+ * as it is, moving between modals keeps their background. Otherwise, ie when going back into
+ * a modal, the background is matched and preloaded on its own
+ */
+const backgroundFromLocation = (
+    routes: RouteWithIds[],
+    location: RouterLocation,
+    previous: RouterState
+): BackgroundState => {
+    if (previous.background && isSamePath(previous.background.location, location)) {
+        return previous.background;
+    }
+
+    if (isSamePath(previous.location, location)) {
+        const { currentMatch, routeStates } = previous;
+        return { location: previous.location, currentMatch, routeStates };
+    }
+
+    // A background is never rendered over another background
+    const { currentMatch, routeStates } = routerStateFromLocation(
+        routes,
+        { ...location, state: null },
+        previous
+    );
+
+    return { location, currentMatch, routeStates };
+};
 
 /**
  * Helper method to great a search string
@@ -292,134 +1011,1568 @@ const buildSearchString = (search: string | Record<string, any>) => {
         newSearch = `?${stringify(search)}`;
     }
 
-    return newSearch;
-};
-
-const addIdsToRoutes = (routes: Route[]): RouteWithIds[] => {
-    const newRoutes: RouteWithIds[] = routes.map((route) => {
-        if (route.children) {
-            return {
-                ...route,
-                children: addIdsToRoutes(route.children),
-                id: 'id' in route ? route.id : nanoid(),
-            };
-        }
-
-        return {
-            ...(route as RouteWithIds), // stupid ts
-            id: 'id' in route ? route.id : nanoid(),
-        };
-    });
-
-    return newRoutes;
+    // An empty search has no question mark
+    return newSearch === '?' ? '' : newSearch;
 };
 
-const mapHierarchyToRoutes = (hierarchy: string[], routes: RouteWithIds[]): RouteWithIds[] => {
-    let routeList: RouteWithIds[] = [];
-    const currentHierarchy = [...hierarchy];
-    const id = currentHierarchy.shift();
-
+/**
+ * Finds the id of the route with the given name anywhere in the routes tree
+ */
+const findRouteIdByName = (routes: RouteWithIds[], name: string): string | null => {
     for (const route of routes) {
-        if (route.id === id) {
-            routeList.push(route);
+        if (route.name === name) {
+            return route.id;
+        }
 
-            if (route.children && currentHierarchy.length === 0) {
-                throw new Error(
-                    `Hierachy does not match routes object. Found route ${route.id} with children and no hierarchy`
-                );
-            } else if (!route.children && currentHierarchy.length > 0) {
-                throw new Error(
-                    `Hierachy does not match routes object. Found route ${route.id} with no children and hierarchy ${currentHierarchy}`
-                );
-            } else if (route.children) {
-                const childRoutes = mapHierarchyToRoutes(currentHierarchy, route.children);
-                routeList = routeList.concat(childRoutes);
+        if (route.children) {
+            const childId = findRouteIdByName(route.children, name);
+            if (childId) {
+                return childId;
             }
         }
     }
 
-    return routeList;
+    return null;
 };
 
-const preloadRoute = (
-    route: Route,
-    location: RouterLocation,
-    redirect: LocationChanger,
-    setRouteState: (state: RouteState) => void
-) => {
-    const guardPromise = (route.guards || []).reduce(
-        (prom, guard) => prom.then(() => guard({ route, redirect, location })),
-        Promise.resolve()
-    );
-
-    const resolvePromise = (route.resolvers || []).reduce((prom, resolverObject) => {
-        const resolvedData: Record<string, any> = {};
-        const resolvePromises = Object.entries(resolverObject).map(([key, resolver]) =>
-            resolver({ route, redirect, location }).then((result: any) => {
-                resolvedData[key] = result;
-            })
-        );
+/**
+ * Builds a path (and optionally a search string) for a named route by filling
+ * its merged nested `match` pattern with the given params
+ */
+const buildNamedPath = (
+    routes: RouteWithIds[],
+    hierarchyMap: HierarchyMap,
+    name: string,
+    params: PathParams = {},
+    search?: Record<string, any> | string
+): string => {
+    const id = findRouteIdByName(routes, name);
+    if (!id) {
+        throw new Error(`No route found with the name "${name}"`);
+    }
 
-        return Promise.all(resolvePromises).then(() => resolvedData);
-    }, Promise.resolve());
+    // A parent with an index child shares its path with that child
+    const patterns = Object.keys(hierarchyMap);
+    const pattern =
+        patterns.find((matchPath) => {
+            const hierarchy = hierarchyMap[matchPath];
+            return hierarchy[hierarchy.length - 1] === id;
+        }) ?? patterns.find((matchPath) => hierarchyMap[matchPath].includes(id));
+    if (!pattern) {
+        throw new Error(`No path found for the route named "${name}"`);
+    }
 
-    const preloadPromise = guardPromise.then(() => resolvePromise);
+    // A catch-all is filled from the `*` param, ie { '*': 'docs/intro' } for /docs/*
+    const normalized = normalizeWildcard(pattern);
+    let tokens: ReturnType<typeof parse>;
+    try {
+        tokens = parse(normalized);
+    } catch (error) {
+        throw new Error(
+            `Can't build a path for the route named "${name}" (${pattern}): ${
+                error instanceof Error ? error.message : String(error)
+            }`
+        );
+    }
+
+    const keys = tokens.filter((token): token is Key => typeof token !== 'string');
+    const wildcardKey = normalized !== pattern ? keys[keys.length - 1] : null;
+    const keyNames = keys.map((key) => (key === wildcardKey ? '*' : String(key.name)));
+
+    const missing = keys
+        .filter((key) => key.modifier !== '?' && key.modifier !== '*' && !(key.name in params))
+        .map((key) => key.name);
+    if (missing.length) {
+        throw new Error(
+            `Missing params ${missing.join(', ')} for the route named "${name}" (${pattern})`
+        );
+    }
+
+    const extra = Object.keys(params).filter((key) => !keyNames.includes(key));
+    if (extra.length) {
+        throw new Error(
+            `Unknown params ${extra.join(', ')} for the route named "${name}" (${pattern})`
+        );
+    }
+
+    const stringParams: Record<string, string> = {};
+    Object.entries(params).forEach(([key, value]) => {
+        stringParams[key === '*' && wildcardKey ? wildcardKey.name : key] = String(value);
+    });
+
+    // The catch-all spans segments, so its slashes are kept
+    const path = compile(normalized, {
+        encode: (value, token) =>
+            token.name === wildcardKey?.name ? encodeURI(value) : encodeURIComponent(value),
+    })(stringParams);
+    // An empty catch-all at the root, ie `*`, leaves nothing
+    const pathname = path || '/';
+
+    return search ? pathname + buildSearchString(search) : pathname;
+};
 
-    preloadPromise.then((resolvedData) => {
-        setRouteState({ loading: false, resolvedData, completed: true });
+/**
+ * Resolves a relative pathname (ie `..`, `./edit` or `edit`) against the pathname
+ * of the current match. Absolute pathnames are returned as is
+ */
+export const resolvePathname = (to: string, from: string) => {
+    if (to.charAt(0) === '/') {
+        return to;
+    }
+
+    const segments = from.split('/').filter(Boolean);
+    to.split('/').forEach((segment) => {
+        if (segment === '..') {
+            segments.pop();
+        } else if (segment !== '.' && segment !== '') {
+            segments.push(segment);
+        }
     });
 
-    return cancellablePromise(preloadPromise);
+    return `/${segments.join('/')}`;
 };
 
-export const preloadPath = async (
-    routes: Route[],
+/**
+ * The location a path points to from the current location. Like an href, a path without a
+ * pathname keeps the current one, ie ?page=2. One with only a hash keeps the search too
+ */
+const resolvePath = (path: string, from: RouterLocation): RouterLocation => {
+    const { pathname, search, hash } = parsePath(path);
+
+    return {
+        pathname: pathname ? resolvePathname(pathname, from.pathname) : from.pathname,
+        search: pathname || search ? search : from.search,
+        hash,
+    };
+};
+
+/**
+ * Formats a hash so it always starts with a #
+ */
+const buildHashString = (hash: string) => {
+    if (!hash || hash === '#') {
+        return '';
+    }
+
+    return hash.charAt(0) === '#' ? hash : `#${hash}`;
+};
+
+/**
+ * Converts the params of the useLocation setter into the next RouterLocation
+ */
+const locationFromSetterParams = (
+    params: LocationSetterParams,
+    routerState: RouterState
+): RouterLocation => {
+    // The history gives the new entry its own key
+    const { key: _, ...location } = routerState.location;
+    const newState: RouterLocation = { ...location, state: params.state };
+
+    if (params.search !== undefined) {
+        newState.search = buildSearchString(params.search);
+    }
+
+    if ('name' in params) {
+        newState.pathname = buildNamedPath(
+            routerState.routes,
+            routerState.hierarchyMap,
+            params.name,
+            params.params
+        );
+        newState.search = params.search ? buildSearchString(params.search) : '';
+        newState.hash = '';
+    } else if (params.pathname) {
+        newState.pathname = resolvePathname(params.pathname, location.pathname);
+        newState.hash = '';
+    }
+
+    if (params.hash !== undefined) {
+        newState.hash = buildHashString(params.hash);
+    }
+
+    return newState;
+};
+
+/**
+ * Creates a buildPath function for the given routes that can be used outside of
+ * react, ie to build redirect urls on the server
+ */
+export const createPathBuilder = (routes: Route[]) => {
+    const routesWithIds = addIdsToRoutes(routes);
+    const hierarchyMap = getHierarchyMap(routesWithIds);
+
+    return (name: string, params?: PathParams, search?: Record<string, any> | string) =>
+        buildNamedPath(routesWithIds, hierarchyMap, name, params, search);
+};
+
+/**
+ * Gives every route an id. Generated ids are built from the routes position
+ * in the routes tree so that the same routes always get the same ids, ie
+ * the ids on the server match the ids on the client
+ */
+const addIdsToRoutes = (routes: Route[], parentId = 'route'): RouteWithIds[] => {
+    const newRoutes: RouteWithIds[] = routes.map((route, index) => {
+        const id = 'id' in route ? route.id : `${parentId}-${index}`;
+
+        let routeWithIds: RouteWithIds;
+        if (route.children) {
+            routeWithIds = {
+                ...route,
+                children: addIdsToRoutes(route.children, id),
+                id,
+            };
+        } else {
+            routeWithIds = {
+                ...(route as RouteWithIds), // stupid ts
+                id,
+            };
+        }
+
+        routeDefinitions.set(routeWithIds, routeDefinitions.get(route as RouteWithIds) || route);
+        return routeWithIds;
+    });
+
+    return newRoutes;
+};
+
+const mapHierarchyToRoutes = (hierarchy: string[], routes: RouteWithIds[]): RouteWithIds[] => {
+    let routeList: RouteWithIds[] = [];
+    const currentHierarchy = [...hierarchy];
+    const id = currentHierarchy.shift();
+
+    for (const route of routes) {
+        if (route.id === id) {
+            routeList.push(route);
+
+            if (route.children && currentHierarchy.length === 0) {
+                throw new Error(
+                    `Hierachy does not match routes object. Found route ${route.id} with children and no hierarchy`
+                );
+            } else if (!route.children && currentHierarchy.length > 0) {
+                throw new Error(
+                    `Hierachy does not match routes object. Found route ${route.id} with no children and hierarchy ${currentHierarchy}`
+                );
+            } else if (route.children) {
+                const childRoutes = mapHierarchyToRoutes(currentHierarchy, route.children);
+                routeList = routeList.concat(childRoutes);
+            }
+        }
+    }
+
+    return routeList;
+};
+
+/**
+ * Runs the resolver stages of a route one after the other. The resolvers of a stage run in
+ * parallel and get the parent data merged with the data of the earlier stages
+ */
+const runResolvers = (
+    route: Route,
     location: RouterLocation,
-    redirect: LocationChanger
+    redirect: LocationChanger,
+    parentData: Record<string, any>,
+    signal: AbortSignal
+) =>
+    (route.resolvers || []).reduce(
+        (prom, resolverObject) =>
+            prom.then((earlierData) => {
+                const resolvedData: Record<string, any> = { ...earlierData };
+                const data = { ...parentData, ...earlierData };
+                const resolvePromises = Object.entries(resolverObject).map(([key, resolver]) =>
+                    resolver({ route, redirect, location, data, signal }).then((result: any) => {
+                        resolvedData[key] = result;
+                    })
+                );
+
+                return Promise.all(resolvePromises).then(() => resolvedData);
+            }),
+        Promise.resolve<Record<string, any>>({})
+    );
+
+const getResolverCache = (route: Route) => {
+    const definition = routeDefinitions.get(route as RouteWithIds) || route;
+
+    let cache = resolverCache.get(definition);
+    if (!cache) {
+        cache = new Map();
+        resolverCache.set(definition, cache);
+    }
+
+    return cache;
+};
+
+/**
+ * Drops all cached resolver data of a route
+ */
+const invalidateResolverCache = (route: Route) => {
+    resolverCache.delete(routeDefinitions.get(route as RouteWithIds) || route);
+};
+
+/**
+ * Runs the resolvers of a route or reuses the data cached under the same key if it
+ * is still fresh. Locations without a key are never cached. Pending resolvers are
+ * only aborted once every caller sharing them has aborted. Callers without a
+ * signal (ie prefetches) never abort
+ */
+const resolveCached = (
+    route: Route,
+    location: RouterLocation,
+    key: string | undefined,
+    redirect: LocationChanger,
+    data: Record<string, any>,
+    signal?: AbortSignal,
+    prefetch = false
 ) => {
+    if (key === undefined) {
+        return runResolvers(
+            route,
+            location,
+            redirect,
+            data,
+            signal || new AbortController().signal
+        );
+    }
+
+    const cache = getResolverCache(route);
+    const now = Date.now();
+    const staleTime = route.staleTime ?? DEFAULT_STALE_TIME;
+    const gcTime = route.gcTime ?? DEFAULT_GC_TIME;
+
+    // Drop data nothing has used in a while
+    cache.forEach((entry, entryKey) => {
+        if (entry.resolvedAt !== null && now - entry.lastUsed > gcTime) {
+            cache.delete(entryKey);
+        }
+    });
+
+    // Data that lead to a redirect can't be reused
+    const createEntry = () => {
+        let redirected = false;
+        const controller = new AbortController();
+        const promise = runResolvers(
+            route,
+            location,
+            (params) => {
+                redirected = true;
+                redirect(params);
+            },
+            data,
+            controller.signal
+        );
+
+        const entry: ResolverCacheEntry = {
+            promise,
+            resolvedAt: null,
+            lastUsed: now,
+            prefetched: prefetch,
+            controller,
+            users: 0,
+        };
+
+        promise.then(
+            () => {
+                entry.resolvedAt = Date.now();
+                if (redirected && cache.get(key) === entry) {
+                    cache.delete(key);
+                }
+            },
+            () => {
+                // Failures are not cached, the next navigation resolves again
+                if (cache.get(key) === entry) {
+                    cache.delete(key);
+                }
+            }
+        );
+
+        return entry;
+    };
+
+    let entry = cache.get(key);
+    const freshFor = entry?.prefetched ? Math.max(staleTime, PREFETCH_STALE_TIME) : staleTime;
+    if (!entry || (entry.resolvedAt !== null && now - entry.resolvedAt >= freshFor)) {
+        entry = createEntry();
+        cache.set(key, entry);
+    } else {
+        entry.prefetched = entry.prefetched && prefetch;
+    }
+
+    const usedEntry = entry;
+    usedEntry.lastUsed = now;
+    usedEntry.users += 1;
+    signal?.addEventListener('abort', () => {
+        usedEntry.users -= 1;
+        if (usedEntry.users || usedEntry.resolvedAt !== null) {
+            return;
+        }
+
+        // Nothing is waiting for the data anymore
+        usedEntry.controller.abort();
+        if (cache.get(key) === usedEntry) {
+            cache.delete(key);
+        }
+    });
+
+    return usedEntry.promise;
+};
+
+/**
+ * Loads everything the routes for a location need ahead of navigating to it. Ie lazy
+ * children, lazy components and resolver data. Returns the routes tree including
+ * any lazy children that were loaded
+ */
+const prefetchLocation = async (current: RouterState, location: RouterLocation) => {
+    // Routes that stay resolved for the same key keep their routeState when navigating
+    const routerState = await resolveLazyMatch(
+        routerStateFromLocation(current.routes, location, current)
+    );
+    const routeList = mapHierarchyToRoutes(routerState.currentMatch.hierarchy, routerState.routes);
+
+    // Guards are not run, they always run when actually navigating
+    let parentData = Promise.resolve<Record<string, any>>({});
+    const resolvePromises = routeList.map((route) => {
+        const routeState = routerState.routeStates[route.id];
+        const contextPromise = route.independent ? Promise.resolve({}) : parentData;
+        const dataPromise =
+            routeState.completed && routeState.error == null
+                ? Promise.resolve(routeState.resolvedData)
+                : contextPromise.then((data) =>
+                      resolveCached(
+                          route,
+                          location,
+                          routeState.key,
+                          () => null,
+                          data,
+                          undefined,
+                          true
+                      )
+                  );
+
+        parentData = Promise.all([parentData, dataPromise]).then(([data, resolvedData]) => ({
+            ...data,
+            ...resolvedData,
+        }));
+
+        return dataPromise;
+    });
+
+    await Promise.all<unknown>([...routeList.map(loadLazyComponent), ...resolvePromises]);
+
+    return routerState.routes;
+};
+
+/**
+ * Allows the navigation. The same as resolving with nothing
+ */
+export const allow = (): GuardResult => ({ type: 'allow' });
+
+/**
+ * Blocks the navigation. The route fails with a GuardDeniedError holding the reason
+ */
+export const deny = (reason?: unknown): GuardResult => ({ type: 'deny', reason });
+
+/**
+ * Redirects instead of navigating. The status is what the server responds with
+ * when preloadPath runs into the redirect
+ */
+export const redirect = (
+    to: LocationSetterParams,
+    { status = 302, replace = true }: { status?: number; replace?: boolean } = {}
+): GuardResult => ({ type: 'redirect', to, status, replace });
+
+/**
+ * Whether a route error (ie from useRouteState) comes from a guard denying the navigation
+ */
+export const isGuardDenied = (error: unknown): error is GuardDeniedError =>
+    error instanceof Error && error.name === 'GuardDeniedError';
+
+const createGuardDeniedError = (route: Route, reason: unknown): GuardDeniedError => {
+    const error = new Error(`A guard of route ${route.match} denied the navigation`);
+    error.name = 'GuardDeniedError';
+    return Object.assign(error, { reason });
+};
+
+/**
+ * Whether a guard result stops the navigation. Any other value allows it, ie the
+ * results of guards written before guards could deny or redirect
+ */
+const isStoppingResult = (result: unknown): result is GuardResult => {
+    const type = (result as { type?: unknown } | null | undefined)?.type;
+    return type === 'deny' || type === 'redirect';
+};
+
+/**
+ * Runs guards one after the other until one of them denies or redirects
+ */
+const runGuards = (guards: Guard[], params: GuardParams) =>
+    guards.reduce<Promise<GuardResult | void>>(
+        (prom, guard) =>
+            prom.then(
+                (result) =>
+                    result ||
+                    guard(params).then((next) => (isStoppingResult(next) ? next : undefined))
+            ),
+        Promise.resolve()
+    );
+
+// Receives the redirects of a preload along with the status code of guard redirects
+type RedirectHandler = (params: LocationSetterParams, status?: number) => void;
+
+// The guard and resolver timings of a preload. The router adds the navigation they belong to
+type RouteEventReport =
+    | { type: 'guardStart' | 'resolverStart' }
+    | { type: 'guardEnd'; duration: number; outcome: GuardOutcome }
+    | { type: 'resolverEnd'; duration: number; outcome: ResolverOutcome };
+
+/**
+ * The current time in milliseconds, as precise as the environment allows
+ */
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/**
+ * Guards and resolves a route. The guards and resolvers get the data of the parent routes
+ * once parentData resolves, unless the route is independent. Returns the data the children
+ * of the route get, which never settles if the route fails as its children won't render.
+ * inheritedGuards are the guards of parent routes that aren't guarding in this navigation,
+ * ie when navigating between two children of the same parent
+ */
+const preloadRoute = (
+    route: Route,
+    location: RouterLocation,
+    locationChanger: RedirectHandler,
+    setRouteState: (state: RouteState) => void,
+    {
+        key,
+        parentData = Promise.resolve<Record<string, any>>({}),
+        inheritedGuards = [],
+        report = () => null,
+    }: {
+        key?: string;
+        parentData?: Promise<Record<string, any>>;
+        inheritedGuards?: Guard[];
+        report?: (event: RouteEventReport) => void;
+    } = {}
+) => {
+    // Aborted when the preload is cancelled before it finished
+    const controller = new AbortController();
+    const { signal } = controller;
+    let settled = false;
+
+    // Redirects replace the history entry by default so the back button doesn't take
+    // the user back into the redirect. A superseded navigation can't redirect anymore
+    const redirectTo: LocationChanger = (params) => {
+        if (!signal.aborted) {
+            locationChanger({ replace: true, ...params });
+        }
+    };
+
+    const contextPromise = route.independent
+        ? Promise.resolve<Record<string, any>>({})
+        : parentData;
+
+    const dataPromise = contextPromise.then((data) => {
+        const guards = [...inheritedGuards, ...(route.guards || [])];
+        const guardStart = now();
+        const guardPromise = runGuards(guards, {
+            route,
+            redirect: redirectTo,
+            location,
+            data,
+            signal,
+        });
+
+        // Resolvers run in parallel with the guards. Reuses fresh
+        // data, ie from a prefetch or from a previous visit
+        const resolveStart = now();
+        const resolvePromise = resolveCached(route, location, key, redirectTo, data, signal);
+
+        if (guards.length) {
+            report({ type: 'guardStart' });
+            const guardEnd = (outcome: GuardOutcome) =>
+                report({
+                    type: 'guardEnd',
+                    duration: now() - guardStart,
+                    outcome: signal.aborted ? 'aborted' : outcome,
+                });
+            guardPromise.then(
+                (result) => guardEnd(result ? result.type : 'allow'),
+                () => guardEnd('error')
+            );
+        }
+
+        if (route.resolvers?.length) {
+            report({ type: 'resolverStart' });
+            const resolverEnd = (outcome: ResolverOutcome) =>
+                report({
+                    type: 'resolverEnd',
+                    duration: now() - resolveStart,
+                    outcome: signal.aborted ? 'aborted' : outcome,
+                });
+            resolvePromise.then(
+                () => resolverEnd('success'),
+                () => resolverEnd('error')
+            );
+        }
+
+        return guardPromise.then((result) => {
+            if (result?.type === 'deny') {
+                throw createGuardDeniedError(route, result.reason);
+            }
+
+            if (result?.type === 'redirect') {
+                if (!signal.aborted) {
+                    locationChanger({ ...result.to, replace: result.replace }, result.status);
+                }
+
+                // The route is left, so it never finishes
+                return new Promise<Record<string, any>>(() => null);
+            }
+
+            return resolvePromise;
+        });
+    });
+
+    // The lazy component loads in parallel with guarding/resolving
+    const componentPromise = loadLazyComponent(route);
+
+    // Failed guards/resolvers end up in the routeState instead of
+    // being left as unhandled rejections
+    const preloadPromise = Promise.all([dataPromise, componentPromise])
+        .then(([resolvedData]) => resolvedData)
+        .then(
+            (resolvedData): RouteState => ({
+                loading: false,
+                resolvedData,
+                completed: true,
+                error: null,
+                key,
+            }),
+            (error): RouteState => ({
+                loading: false,
+                resolvedData: {},
+                completed: true,
+                error: error ?? new Error(`Preloading route ${route.match} failed`),
+                key,
+            })
+        );
+
+    const cancellable = cancellablePromise(preloadPromise);
+    cancellable.promise.then(setRouteState);
+    preloadPromise.then(() => {
+        settled = true;
+    });
+
+    const cancel = () => {
+        cancellable.cancel();
+        if (!settled) {
+            controller.abort();
+        }
+    };
+
+    const childData = Promise.all([parentData, dataPromise]).then(
+        ([data, resolvedData]) => ({ ...data, ...resolvedData }),
+        () => new Promise<Record<string, any>>(() => null)
+    );
+
+    return { promise: cancellable.promise, cancel, data: childData };
+};
+
+/**
+ * Guards and resolves the routes for a location outside of React, ie on the server. Resolves
+ * with the redirect instead if a guard or resolver redirected, so the server can respond with it
+ */
+export const preloadPath = async (
+    routes: Route[],
+    requestLocation: RouterLocation,
+    { basename = '' }: { basename?: string } = {}
+): Promise<PreloadPathResult> => {
     const routesWithIds = addIdsToRoutes(routes);
+    const location = {
+        ...requestLocation,
+        pathname: stripBasename(requestLocation.pathname, basename) ?? requestLocation.pathname,
+    };
 
-    const routerState = routerStateFromLocation(routesWithIds, location);
+    const routerState = await resolveLazyMatch(routerStateFromLocation(routesWithIds, location));
 
     const { hierarchy } = routerState.currentMatch;
 
-    const routeList = mapHierarchyToRoutes(hierarchy, routesWithIds);
+    // A route whose lazy children failed to load already holds its error. Like on
+    // the client, neither it nor the routes below it are preloaded
+    const routeList = mapHierarchyToRoutes(hierarchy, routerState.routes);
+    const failedIndex = routeList.findIndex(
+        (route) => routerState.routeStates[route.id]?.error != null
+    );
+    if (failedIndex !== -1) {
+        routeList.splice(failedIndex);
+    }
+
+    // Only the first redirect counts
+    const redirects: PreloadPathResult[] = [];
+    let onRedirect = () => {};
+    const redirectPromise = new Promise<null>((resolve) => {
+        onRedirect = () => resolve(null);
+    });
+    const handleRedirect: RedirectHandler = (params, status = 302) => {
+        const redirectLocation = locationFromSetterParams(params, routerState);
+        redirects.push({
+            type: 'redirect',
+            location: {
+                ...redirectLocation,
+                pathname: addBasename(redirectLocation.pathname, basename),
+            },
+            status,
+        });
+        onRedirect();
+    };
+
+    // Every route starts right away and only waits for the data of its parents
+    let parentData = Promise.resolve<Record<string, any>>({});
+    const preloads = routeList.map((route) => {
+        const { key } = routerState.routeStates[route.id];
+        const setRouteState = (state: RouteState) => {
+            routerState.routeStates[route.id] = { ...state, key };
+        };
+
+        // Preloaded without a key, so the resolvers always run. The resolver cache is
+        // shared by every request on the server, it would share data between users
+        const preload = preloadRoute(route, location, handleRedirect, setRouteState, {
+            parentData,
+        });
+        parentData = preload.data;
+
+        return preload;
+    });
+
+    for (const { promise } of preloads) {
+        // A route that redirected by returning a redirect never finishes
+        // eslint-disable-next-line
+        const routeState = await Promise.race([promise, redirectPromise]);
+
+        // Children of a failed route are never rendered so there
+        // is no need to wait for them
+        if (!routeState || redirects.length || routeState.error != null) {
+            break;
+        }
+    }
+
+    // Abort whatever is still running, ie after a redirect or below a failed route
+    preloads.forEach(({ cancel }) => cancel());
+
+    if (redirects.length) {
+        return redirects[0];
+    }
+
+    return { type: 'success', routerState, head: getRouteHead(routerState) };
+};
+
+/**
+ * The first failed route of a RouterState along with the route that handles its error.
+ * Useful on the server to check if the state returned by preloadPath failed, ie to
+ * send a 500 when the error has no handler
+ */
+export const getRouteError = (routerState: RouterState): RouteError | null =>
+    findRouteError(
+        mapHierarchyToRoutes(routerState.currentMatch.hierarchy, routerState.routes),
+        routerState.routeStates
+    );
+
+/**
+ * The routes of the current match from the root down, with their meta and route state
+ */
+export const getMatches = (routerState: RouterState): MatchedRoute[] => {
+    const { currentMatch, routes, routeStates, location } = routerState;
+    const { params } = currentMatch;
+    let data: Record<string, any> = {};
+
+    return mapHierarchyToRoutes(currentMatch.hierarchy, routes)
+        .filter((route) => routeStates[route.id])
+        .map((route) => {
+            const state = routeStates[route.id];
+            data = { ...data, ...state.resolvedData };
+
+            const meta =
+                typeof route.meta === 'function'
+                    ? route.meta({ params, location, data })
+                    : route.meta || {};
+
+            return { id: route.id, route, params, meta, state };
+        });
+};
+
+/**
+ * The document head for a RouterState. On the server it comes with
+ * the result of preloadPath so it can be written into the html
+ */
+export const getRouteHead = (routerState: RouterState): RouteHeadData =>
+    getMatches(routerState).reduce<RouteHeadData>(
+        (head, { meta }) => ({
+            title: meta.title ?? head.title,
+            tags: { ...head.tags, ...meta.tags },
+        }),
+        { tags: {} }
+    );
+
+/**
+ * Errors are not JSON safe, so only keep their name and message
+ */
+const dehydrateError = (error: unknown) => {
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message };
+    }
+
+    return error;
+};
+
+/**
+ * Strips a RouterState (ie the one returned from preloadPath) down to
+ * JSON safe data that can be sent along with the server rendered html.
+ * Any resolvedData must be serializable for this to work
+ */
+export const dehydrateRouterState = (routerState: RouterState): DehydratedRouterState => {
+    const { location, currentMatch, routeStates } = routerState;
+
+    const dehydratedRouteStates: Record<string, RouteState> = {};
+    currentMatch.hierarchy.forEach((id) => {
+        if (id in routeStates) {
+            const { loading, resolvedData, completed, error } = routeStates[id];
+            dehydratedRouteStates[id] = {
+                loading,
+                resolvedData,
+                completed,
+                error: dehydrateError(error),
+            };
+        }
+    });
+
+    return {
+        location: { pathname: location.pathname, search: location.search, hash: location.hash },
+        currentMatch: {
+            hierarchy: [...currentMatch.hierarchy],
+            params: currentMatch.params ? { ...currentMatch.params } : null,
+        },
+        routeStates: dehydratedRouteStates,
+    };
+};
+
+/**
+ * Turns the data from dehydrateRouterState back into a RouterState that can be passed
+ * to the <Router /> as the initialRouterState. Routes that completed on the server
+ * will not be guarded or resolved again on the client. Lazy children and components
+ * of the matched routes are loaded first, so the client renders what the server did.
+ *
+ * If the routes don't match the dehydrated hierarchy (ie the routes differ between
+ * server and client) the server data is thrown away and the routes are preloaded again
+ */
+export const hydrateRouterState = async (
+    routes: Route[],
+    data: DehydratedRouterState
+): Promise<RouterState> => {
+    const routesWithIds = addIdsToRoutes(routes);
+    const routerState = await resolveLazyMatch(
+        routerStateFromLocation(routesWithIds, data.location)
+    );
+    const { hierarchy } = routerState.currentMatch;
+
+    const sameHierarchy =
+        hierarchy.length === data.currentMatch.hierarchy.length &&
+        hierarchy.every((id, i) => id === data.currentMatch.hierarchy[i]);
+
+    if (!sameHierarchy) {
+        // eslint-disable-next-line
+        console.error('Dehydrated router state does not match the routes. Preloading again');
+        return routerState;
+    }
+
+    await Promise.all(
+        mapHierarchyToRoutes(hierarchy, routerState.routes).map((route) => loadLazyComponent(route))
+    );
+
+    hierarchy.forEach((id) => {
+        if (id in data.routeStates) {
+            // The key is derived from the location so it is the same as on the server
+            routerState.routeStates[id] = {
+                ...data.routeStates[id],
+                key: routerState.routeStates[id].key,
+            };
+        }
+    });
+
+    return routerState;
+};
+
+/**
+ * Creates a route whose params and resolved data types are inferred from
+ * its `match` and `resolvers`. Use with useRouteParams and useResolvedData
+ */
+export const createRoute = <M extends string, R extends Resolvers, S = Record<string, any>>(
+    route: { match: M; resolvers?: [...R]; searchSchema?: SearchSchema<S> } & DistributiveOmit<
+        RouteWithoutIds,
+        'match' | 'resolvers' | 'searchSchema'
+    >
+): TypedRoute<M, NoResolvers<R>, S> => route as TypedRoute<M, NoResolvers<R>, S>;
+
+/**
+ * Keeps the literal types of a routes array so that each route
+ * can be used with the typed hooks
+ */
+export const defineRoutes = <T extends Route[]>(routes: [...T]): [...T] => routes;
+
+// CORE
+
+/**
+ * Every route in a routes tree, including children, that matches a predicate
+ */
+const findRoutes = (
+    routes: RouteWithIds[],
+    predicate: (route: RouteWithIds) => boolean
+): RouteWithIds[] =>
+    routes.reduce<RouteWithIds[]>(
+        (found, route) => [
+            ...found,
+            ...(predicate(route) ? [route] : []),
+            ...findRoutes(route.children || [], predicate),
+        ],
+        []
+    );
+
+/**
+ * Creates a router that works without React. It owns the router state, keeps it in sync with
+ * the history, matches locations and guards/resolves the routes of every navigation. Render
+ * it with <Router router={router} /> or drive it directly, ie from a store or a test
+ */
+export const createRouter = ({
+    routes,
+    history: baseHistory = createBrowserHistory(),
+    basename = '',
+    initialState,
+    instrumentation = [],
+    autoStart = true,
+}: RouterOptions): RouterInstance => {
+    const history = withBasename(baseHistory, basename);
+    let state =
+        initialState || routerStateFromLocation(addIdsToRoutes(routes), history.getLocation());
+    let listeners: (() => void)[] = [];
+    let disposed = false;
+    // Set while the router is started
+    let unlisten: (() => void) | null = null;
+
+    const blockers = createNavigationBlockers();
+
+    // The guarding/resolving of routeStates. A preload belongs to a routeState
+    // and is aborted once that routeState is replaced
+    const running = new Map<
+        RouteState,
+        { cancel: () => void; data: Promise<Record<string, any>> }
+    >();
+
+    // Routes whose lazy children are being loaded
+    const loadingChildren = new Set<RouteWithIds>();
+
+    let setState: RouterInstance['setState'];
+
+    let eventListeners = [...instrumentation];
+    // The navigation that hasn't finished yet
+    let navigation: { id: number; location: RouterLocation; start: number } | null = null;
+    let navigationCount = 0;
+
+    const emit = (event: NavigationEvent) => eventListeners.forEach((listener) => listener(event));
+
+    const startNavigation = (from: RouterLocation | null) => {
+        navigationCount += 1;
+        const time = now();
+        navigation = { id: navigationCount, location: state.location, start: time };
+
+        emit({
+            type: 'navigationStart',
+            navigationId: navigation.id,
+            location: state.location,
+            params: state.currentMatch.params,
+            time,
+            from,
+            action: state.action,
+            routeIds: state.currentMatch.hierarchy,
+        });
+    };
+
+    /**
+     * Ends the current navigation once every route of the match is done or one of them failed.
+     * Navigations replaced by a newer one never end
+     */
+    const checkNavigationEnd = () => {
+        if (!navigation || navigation.location !== state.location) {
+            return;
+        }
+
+        const { hierarchy, params } = state.currentMatch;
+        const failed = hierarchy.find((id) => state.routeStates[id]?.error != null);
+        const done =
+            !findUnloadedMatch(state) && hierarchy.every((id) => state.routeStates[id]?.completed);
+        if (failed === undefined && !done) {
+            return;
+        }
+
+        const time = now();
+        const base = { navigationId: navigation.id, location: state.location, params, time };
+        const duration = time - navigation.start;
+        navigation = null;
+
+        emit(
+            failed === undefined
+                ? { ...base, type: 'navigationEnd', routeIds: hierarchy, duration }
+                : {
+                      ...base,
+                      type: 'navigationError',
+                      routeId: failed,
+                      error: state.routeStates[failed].error,
+                      duration,
+                  }
+        );
+    };
+
+    const goTo = (location: RouterLocation, action: NavigationAction) =>
+        setState((old) => routerStateFromLocation(old.routes, location, old, action));
+
+    /**
+     * Navigates without asking the leave guards and blockers. Used by the router itself, ie redirects
+     */
+    const changeLocation: RedirectHandler = (params) =>
+        goTo(locationFromSetterParams(params, state), params.replace ? 'replace' : 'push');
+
+    /**
+     * Reports the guard/resolver events and the redirects of a route in the current navigation
+     */
+    const instrumentRoute = (route: RouteWithIds) => {
+        const base = {
+            navigationId: navigationCount,
+            location: state.location,
+            params: state.currentMatch.params,
+            routeId: route.id,
+            routeName: route.name,
+        };
+
+        const report = (event: RouteEventReport) => emit({ ...base, ...event, time: now() });
+        const redirectFrom: RedirectHandler = (params, status) => {
+            const to = locationFromSetterParams(params, state);
+            emit({ ...base, type: 'redirect', to, status, time: now() });
+            goTo(to, params.replace ? 'replace' : 'push');
+        };
+
+        return { report, redirectFrom };
+    };
+
+    /**
+     * Pushes the location of a navigation made by the router to the history.
+     * Back/forward navigations are already in the history
+     */
+    const syncHistory = (previous: RouterState) => {
+        if (state.location === previous.location || state.action === 'pop') {
+            return;
+        }
+
+        // Navigating to the current url only updates the history entry (ie its state)
+        const historyLocation = history.getLocation();
+        const sameUrl =
+            historyLocation.pathname === state.location.pathname &&
+            historyLocation.search === state.location.search &&
+            (historyLocation.hash || '') === (state.location.hash || '');
+
+        if (sameUrl || state.action === 'replace') {
+            history.replace(state.location);
+        } else {
+            history.push(state.location);
+        }
+    };
+
+    /**
+     * Loads the lazy children of the current match and re-matches the location once they are
+     * in the routes tree. Failing to load them is an error of the route that declared them
+     */
+    const loadLazyMatch = () => {
+        const unloaded = findUnloadedMatch(state);
+        if (!unloaded || loadingChildren.has(unloaded)) {
+            return;
+        }
+
+        loadingChildren.add(unloaded);
+
+        loadLazyChildren(state.routes, unloaded).then(
+            (loadedRoutes) => {
+                loadingChildren.delete(unloaded);
+                // Re-match even if a newer navigation replaced this one. Its match was made
+                // against the old routes tree and may be waiting for these children too
+                setState((old) =>
+                    routerStateFromLocation(loadedRoutes, old.location, old, old.action)
+                );
+            },
+            (error) => {
+                loadingChildren.delete(unloaded);
+                setState((old) => ({
+                    ...old,
+                    routeStates: {
+                        ...old.routeStates,
+                        [unloaded.id]: {
+                            ...old.routeStates[unloaded.id],
+                            loading: false,
+                            resolvedData: {},
+                            completed: true,
+                            error,
+                        },
+                    },
+                }));
+            }
+        );
+    };
+
+    /**
+     * Guards and resolves the routes of a match, ie the current match or its background.
+     * Every route of the match starts right away and only waits for its parents when it
+     * needs their data. Adds the routeStates of the match to current
+     */
+    const preloadMatch = (
+        { location, currentMatch, routeStates }: BackgroundState,
+        setRouteState: (
+            route: RouteWithIds,
+            routeState: RouteState
+        ) => (newState: RouteState) => void,
+        current: Set<RouteState>
+    ) => {
+        let parentData = Promise.resolve<Record<string, any>>({});
+        // The guards of parents that finished guarding in an earlier navigation. The topmost
+        // route preloading now runs them again, its children wait for it. Independent routes
+        // don't wait for their parents so they run all of them
+        let inheritedGuards: Guard[] = [];
+        let completedGuards: Guard[] = [];
+        for (const route of mapHierarchyToRoutes(currentMatch.hierarchy, state.routes)) {
+            const routeState = routeStates[route.id];
+
+            // Children of a failed route are never rendered
+            if (!routeState || routeState.error != null) {
+                break;
+            }
+
+            current.add(routeState);
+            const preload = running.get(routeState);
+
+            if (routeState.completed) {
+                const { resolvedData } = routeState;
+                parentData = parentData.then((data) => ({ ...data, ...resolvedData }));
+                inheritedGuards = [...inheritedGuards, ...(route.guards || [])];
+                completedGuards = [...completedGuards, ...(route.guards || [])];
+
+                // The state may have come from elsewhere (ie the server) without the component
+                if (!preload && !getRouteComponent(route) && route.lazy) {
+                    const { promise, cancel } = cancellablePromise(loadLazyComponent(route));
+                    promise.then(() => setRouteState(route, routeState)({ ...routeState }));
+                    running.set(routeState, { cancel, data: parentData });
+                }
+            } else if (preload) {
+                parentData = preload.data;
+                inheritedGuards = [];
+            } else {
+                const { report, redirectFrom } = instrumentRoute(route);
+                const { cancel, data } = preloadRoute(
+                    route,
+                    location,
+                    redirectFrom,
+                    setRouteState(route, routeState),
+                    {
+                        key: routeState.key,
+                        parentData,
+                        inheritedGuards: route.independent ? completedGuards : inheritedGuards,
+                        report,
+                    }
+                );
+                running.set(routeState, { cancel, data });
+                parentData = data;
+                inheritedGuards = [];
+            }
+        }
+    };
+
+    /**
+     * Guards and resolves the routes of the current match and of the background it is rendered over.
+     *
+     * The latest navigation is the one whose routeStates are in the current state. A preload
+     * is aborted once its routeState is replaced, ie by a newer navigation or a param change.
+     * Routes shared with the newer navigation keep preloading
+     */
+    const syncPreloads = () => {
+        const current = new Set<RouteState>();
+
+        preloadMatch(
+            state,
+            (route, routeState) => (newState) =>
+                setState((old) =>
+                    old.routeStates[route.id] === routeState
+                        ? { ...old, routeStates: { ...old.routeStates, [route.id]: newState } }
+                        : old
+                ),
+            current
+        );
+
+        // The background keeps its own routeStates
+        if (state.background) {
+            preloadMatch(
+                state.background,
+                (route, routeState) => (newState) =>
+                    setState((old) =>
+                        old.background?.routeStates[route.id] === routeState
+                            ? {
+                                  ...old,
+                                  background: {
+                                      ...old.background,
+                                      routeStates: {
+                                          ...old.background.routeStates,
+                                          [route.id]: newState,
+                                      },
+                                  },
+                              }
+                            : old
+                    ),
+                current
+            );
+        }
+
+        // Cancel the preloads of routeStates that have been replaced, ie by a navigation
+        running.forEach(({ cancel }, routeState) => {
+            if (!current.has(routeState)) {
+                cancel();
+                running.delete(routeState);
+            }
+        });
+    };
+
+    setState = (update) => {
+        if (disposed) {
+            return;
+        }
+
+        const previous = state;
+        state = typeof update === 'function' ? update(previous) : update;
+        if (state === previous) {
+            return;
+        }
+
+        syncHistory(previous);
+        if (state.location !== previous.location) {
+            startNavigation(previous.location);
+        }
+        // A stopped router catches up once it is started
+        if (unlisten) {
+            loadLazyMatch();
+            syncPreloads();
+        }
+        listeners.forEach((listener) => listener());
+        checkNavigationEnd();
+    };
+
+    // Updates the state from locations changed outside of the router (ie the back
+    // button) unless the navigation is blocked, which puts the url back
+    let reverting = false;
+    const onHistoryChange: HistoryListener = (location, delta) => {
+        if (reverting) {
+            reverting = false;
+            return;
+        }
+
+        const current = state;
+        blockers.confirm(
+            { from: current.location, to: location, action: 'pop' },
+            findLeavingRoutes(current, location),
+            () => setState((old) => routerStateFromLocation(old.routes, location, old)),
+            () => {
+                if (delta) {
+                    reverting = true;
+                    history.go(-delta);
+                } else {
+                    history.replace(current.location);
+                }
+            }
+        );
+    };
+
+    const cancelPreloads = () => {
+        running.forEach(({ cancel }) => cancel());
+        running.clear();
+    };
+
+    const stop = () => {
+        if (!unlisten) {
+            return;
+        }
+
+        unlisten();
+        unlisten = null;
+        // Unless the router is started again right away, ie by the StrictMode effects of
+        // <Router />, which then keeps the running preloads instead of starting them again
+        Promise.resolve().then(() => {
+            if (!unlisten) {
+                cancelPreloads();
+            }
+        });
+    };
+
+    /**
+     * Starts listening to the history and guarding/resolving. Stopping and starting
+     * again picks up where it left off, ie the StrictMode effects of <Router />
+     */
+    const start = () => {
+        if (disposed || unlisten) {
+            return stop;
+        }
+
+        unlisten = history.listen(onHistoryChange);
+        if (!navigationCount) {
+            startNavigation(null);
+        }
+        loadLazyMatch();
+        syncPreloads();
+        checkNavigationEnd();
+
+        return stop;
+    };
+
+    if (autoStart) {
+        start();
+    }
+
+    return {
+        history,
+        getState: () => state,
+        setState: (update) => setState(update),
+        subscribe(listener) {
+            listeners.push(listener);
+
+            return () => {
+                listeners = listeners.filter((l) => l !== listener);
+            };
+        },
+        navigate(to) {
+            const current = state;
+            const params: LocationSetterParams =
+                typeof to === 'string' ? resolvePath(to, current.location) : to;
+            const newLocationState = locationFromSetterParams(params, current);
+            const action: NavigationAction = params.replace ? 'replace' : 'push';
+
+            return new Promise((resolve) => {
+                blockers.confirm(
+                    { from: current.location, to: newLocationState, action },
+                    findLeavingRoutes(current, newLocationState),
+                    () => {
+                        setState((old) =>
+                            routerStateFromLocation(old.routes, newLocationState, old, action)
+                        );
+                        resolve(true);
+                    },
+                    () => resolve(false),
+                    () => resolve(false)
+                );
+            });
+        },
+        preload(to) {
+            const startRoutes = state.routes;
+            const location = typeof to === 'string' ? resolvePath(to, state.location) : to;
+
+            return prefetchLocation(state, location).then(
+                (loadedRoutes) => {
+                    if (loadedRoutes === startRoutes) {
+                        return;
+                    }
+
+                    // Keep the loaded lazy children so the navigation doesn't wait for them
+                    setState((old) =>
+                        old.routes === startRoutes
+                            ? {
+                                  ...old,
+                                  routes: loadedRoutes,
+                                  hierarchyMap: getHierarchyMap(loadedRoutes),
+                              }
+                            : old
+                    );
+                },
+                () => {
+                    // The navigation itself will run into and handle the error
+                }
+            );
+        },
+        invalidate(target) {
+            const { routes: currentRoutes, location, currentMatch, routeStates } = state;
+            const matches = (route: RouteWithIds) => {
+                if (target === undefined) return true;
+                return typeof target === 'string' ? route.name === target : target(route);
+            };
+
+            findRoutes(currentRoutes, matches).forEach(invalidateResolverCache);
+
+            // The data of the parents of each route in the current match
+            const matchedRoutes = mapHierarchyToRoutes(currentMatch.hierarchy, currentRoutes);
+            const parentData: Record<string, Record<string, any>> = {};
+            matchedRoutes.reduce<Record<string, any>>((data, route) => {
+                parentData[route.id] = route.independent ? {} : data;
+                return { ...data, ...routeStates[route.id]?.resolvedData };
+            }, {});
+
+            // Routes still guarding/resolving will get fresh data anyway
+            const routeList = matchedRoutes.filter(
+                (route) =>
+                    matches(route) &&
+                    route.resolvers &&
+                    routeStates[route.id]?.completed &&
+                    routeStates[route.id].error == null
+            );
+
+            const redirectTo: LocationChanger = (params) =>
+                changeLocation({ replace: true, ...params });
+
+            return Promise.all(
+                routeList.map((route) => {
+                    const { key } = routeStates[route.id];
+                    const update = (changes: Partial<RouteState>) =>
+                        setState((old) => {
+                            const routeState = old.routeStates[route.id];
+                            // The route has since been left or resolved for other params
+                            if (!routeState || routeState.key !== key) {
+                                return old;
+                            }
+
+                            return {
+                                ...old,
+                                routeStates: {
+                                    ...old.routeStates,
+                                    [route.id]: { ...routeState, ...changes },
+                                },
+                            };
+                        });
+
+                    return resolveCached(
+                        route,
+                        location,
+                        key,
+                        redirectTo,
+                        parentData[route.id]
+                    ).then(
+                        (resolvedData) => update({ resolvedData }),
+                        (error) => update({ resolvedData: {}, error })
+                    );
+                })
+            ).then(() => undefined);
+        },
+        block: (blocker) => blockers.add(blocker),
+        instrument(listener) {
+            eventListeners.push(listener);
 
-    let redirected = false;
-    const wrappedRedirect: LocationChanger = (params) => {
-        redirected = true;
-        return redirect(params);
+            return () => {
+                eventListeners = eventListeners.filter((l) => l !== listener);
+            };
+        },
+        start,
+        dispose() {
+            stop();
+            cancelPreloads();
+            disposed = true;
+            listeners = [];
+            eventListeners = [];
+        },
     };
+};
 
-    let preloadCancel;
-    for (const route of routeList) {
-        if (redirected) {
-            break;
+/**
+ * The history of a router rendered inside a route of another router. It navigates through
+ * the parent router instead of the window, so both routers stay in sync and only the parent
+ * listens to the window. The nested router sees the locations under the basename
+ */
+const createNestedHistory = (parent: RouterInstance, basename: string): History => {
+    let listeners: HistoryListener[] = [];
+    const notify = (location: RouterLocation) => {
+        // The nested router is about to unmount once the parent leaves the basename
+        if (stripBasename(location.pathname, basename) !== null) {
+            listeners.forEach((listener) => listener(location, null));
         }
+    };
 
-        const setRouteState = (state: RouteState) => {
-            routerState.routeStates[route.id] = state;
-        };
+    // The location the nested router navigated the parent to, which it is already at.
+    // The parent may only get there later, ie after its leave guards and blockers
+    let pushed: RouterLocation | null = null;
+    const navigate = (location: RouterLocation, replace: boolean) => {
+        pushed = location;
+        parent.navigate({ ...location, replace }).then((navigated) => {
+            if (pushed !== location) {
+                return;
+            }
 
-        const { promise, cancel } = preloadRoute(route, location, wrappedRedirect, setRouteState);
+            // The parent stopped the navigation, so the nested router goes back to where it is
+            pushed = null;
+            if (!navigated) {
+                notify(parent.getState().location);
+            }
+        });
+    };
 
-        preloadCancel = cancel;
+    let { location: current } = parent.getState();
+    let unsubscribe: (() => void) | null = null;
+    const onParentChange = () => {
+        const { location } = parent.getState();
+        if (location === current) {
+            return;
+        }
 
-        // eslint-disable-next-line
-        await promise;
-    }
+        current = location;
+        if (pushed && createPath(pushed) === createPath(location)) {
+            pushed = null;
+        } else {
+            notify(location);
+        }
+    };
 
-    if (redirected) {
-        if (preloadCancel) preloadCancel();
-        return null;
-    }
+    return withBasename(
+        {
+            getLocation: () => parent.getState().location,
+            push: (location) => navigate(location, false),
+            replace: (location) => navigate(location, true),
+            go: (delta) => parent.history.go(delta),
+            listen(listener) {
+                // Only subscribe to the parent once, no matter how many listeners there are
+                if (!unsubscribe) {
+                    current = parent.getState().location;
+                    unsubscribe = parent.subscribe(onParentChange);
+                }
+                listeners.push(listener);
+
+                return () => {
+                    listeners = listeners.filter((l) => l !== listener);
+                    if (!listeners.length && unsubscribe) {
+                        unsubscribe();
+                        unsubscribe = null;
+                    }
+                };
+            },
+            createHref: (location) => parent.history.createHref(location),
+        },
+        basename
+    );
+};
 
-    return routerState;
+/**
+ * The part of the pathname the current match of a router matched before its catch-all,
+ * ie /mfe for /mfe/users/4 matched by /mfe/*. Nested routers are mounted there
+ */
+const getMatchedPrefix = ({ location, currentMatch }: RouterState) => {
+    const rest = currentMatch.params?.['*'];
+    const prefix = rest
+        ? location.pathname.substring(0, location.pathname.length - rest.length)
+        : location.pathname;
+
+    return prefix.replace(/\/+$/, '');
 };
 
 // HOOKS
 
-const useComponentCache = (): Record<string, React.ComponentType<any>> => {
+// The preloading wrapper of a route along with the named views it provides
+type RoutePreloader = React.ComponentType<{
+    children: ReactNode;
+    outlets: Record<string, ReactNode>;
+}> & { views: Record<string, ReactNode> };
+
+const useComponentCache = (): Record<string, RoutePreloader> => {
     const cache = useRef({});
     return cache.current;
 };
@@ -436,6 +2589,23 @@ const useRouterState = () => {
     return [routerState, setRouterState] as [typeof routerState, typeof setRouterState];
 };
 
+/**
+ * The router instance rendered by the closest <Router />
+ */
+export const useRouter = () => {
+    const router = useContext(RouterInstanceContext);
+
+    if (!router) {
+        throw new Error(
+            'Invalid use of a router hook outside of the router context. Did put the <Router /> component at the root of your application?'
+        );
+    }
+
+    return router;
+};
+
+const useHistory = () => useRouter().history;
+
 const useCurrentMatch = () => {
     const [routerState] = useRouterState();
 
@@ -455,311 +2625,1159 @@ export const useParams = () => {
 };
 
 export const useLocation = (): [RouterLocation, LocationChanger] => {
+    const [routerState] = useRouterState();
+    const router = useRouter();
+
+    return [routerState.location, router.navigate];
+};
+
+/**
+ * Blocks the navigations the predicate matches, or every navigation when given true. Ie to keep
+ * the user from leaving a half filled form. While blocked, render a confirm UI that calls proceed
+ * or reset. A reset back/forward navigation puts the url back. Leaving the page altogether is
+ * covered by useBeforeUnload
+ */
+export const useBlocker = (when: boolean | BlockerPredicate): Blocker => {
+    const router = useRouter();
+    const [blocked, setBlocked] = useState<Omit<Blocker, 'state'> | null>(null);
+
+    const latestWhen = useRef(when);
+    latestWhen.current = when;
+
+    useEffect(
+        () =>
+            router.block({
+                shouldBlock: (transition) =>
+                    typeof latestWhen.current === 'function'
+                        ? latestWhen.current(transition)
+                        : latestWhen.current,
+                block: (transition, proceed, reset) =>
+                    setBlocked({
+                        transition,
+                        proceed: () => {
+                            setBlocked(null);
+                            proceed();
+                        },
+                        reset: () => {
+                            setBlocked(null);
+                            reset();
+                        },
+                    }),
+            }),
+        [router]
+    );
+
+    return useMemo(
+        (): Blocker =>
+            blocked
+                ? { state: 'blocked', ...blocked }
+                : { state: 'unblocked', transition: null, proceed: () => null, reset: () => null },
+        [blocked]
+    );
+};
+
+/**
+ * Has the browser ask for confirmation before the page is left (ie closing the tab
+ * or reloading) while enabled. Browsers show their own message
+ */
+export const useBeforeUnload = (enabled: boolean) => {
+    useEffect(() => {
+        if (!enabled) {
+            return undefined;
+        }
+
+        const listener = (event: BeforeUnloadEvent) => {
+            event.preventDefault();
+            // Older browsers only prompt when returnValue is set
+            // eslint-disable-next-line
+            event.returnValue = '';
+        };
+
+        window.addEventListener('beforeunload', listener);
+        return () => window.removeEventListener('beforeunload', listener);
+    }, [enabled]);
+};
+
+/**
+ * The parsed search params of the current location and a setter to update them.
+ * When given a route with a searchSchema the params are parsed by that schema,
+ * otherwise the searchSchema of the deepest matched route is used, if any
+ */
+export const useSearchParams = <S extends Record<string, any> = Record<string, any>>(
+    route?: TypedRoute<string, Resolvers, S>
+): [S, SearchParamsSetter<S>] => {
+    const [routerState] = useRouterState();
+    const [location, setLocation] = useLocation();
+    const { currentMatch, routes } = routerState;
+
+    const schema: SearchSchema<S> | undefined = useMemo(() => {
+        if (route) {
+            return route.searchSchema;
+        }
+
+        const routeList = mapHierarchyToRoutes(currentMatch.hierarchy, routes);
+        return routeList.reverse().find((r) => r.searchSchema)?.searchSchema;
+    }, [route, currentMatch.hierarchy, routes]);
+
+    const searchParams = useMemo(() => {
+        const parsed = parseQuery(location.search);
+        return schema ? schema.parse(parsed) : (parsed as unknown as S);
+    }, [location.search, schema]);
+
+    const setSearchParams: SearchParamsSetter<S> = useCallback(
+        (search, { mode = 'merge', replace = false } = {}) => {
+            const next: Record<string, any> =
+                typeof search === 'function' ? search(searchParams) : search;
+            const isDeleted = (key: string) => next[key] === null || next[key] === undefined;
+
+            const changed = { ...next };
+            Object.keys(changed)
+                .filter(isDeleted)
+                .forEach((key) => delete changed[key]);
+
+            // Only the params being set go through the schema. Merging into the raw search
+            // keeps the params the schema doesn't know about
+            const serialized = schema?.serialize
+                ? schema.serialize(changed as Partial<S>)
+                : changed;
+            const merged: Record<string, any> =
+                mode === 'merge'
+                    ? { ...parseQuery(location.search), ...serialized }
+                    : { ...serialized };
+
+            Object.keys(next)
+                .filter(isDeleted)
+                .forEach((key) => delete merged[key]);
+
+            setLocation({ search: merged, replace });
+        },
+        [searchParams, schema, location.search, setLocation]
+    );
+
+    return [searchParams, setSearchParams];
+};
+
+/**
+ * Returns a function that builds the path for a named route.
+ * Ie buildPath('user', { id: 1 }, { tab: 'settings' }) => /users/1?tab=settings
+ */
+export const useBuildPath = () => {
+    const [routerState] = useRouterState();
+    const { routes, hierarchyMap } = routerState;
+
+    return useCallback(
+        (name: string, params?: PathParams, search?: Record<string, any> | string) =>
+            buildNamedPath(routes, hierarchyMap, name, params, search),
+        [routes, hierarchyMap]
+    );
+};
+
+/**
+ * This hook takes the hierarchy of
+ * routes that should be rendered and converts it
+ * into a list of components that should be rendered
+ */
+const useCurrentMatchComponents = () => {
+    const [routerState] = useRouterState();
+    const { hierarchy } = useCurrentMatch();
+    const componentCache = useComponentCache();
+
+    const { routes, routeStates } = routerState;
+
+    const matchedRouteList = useMemo(
+        () => mapHierarchyToRoutes(hierarchy, routes),
+        [hierarchy, routes]
+    );
+
+    // Routes below the route handling an error are not rendered
+    const routeError = findRouteError(matchedRouteList, routeStates);
+    const handlerIndex = routeError?.handler ? matchedRouteList.indexOf(routeError.handler) : -1;
+    const routeList = useMemo(
+        () =>
+            handlerIndex === -1 ? matchedRouteList : matchedRouteList.slice(0, handlerIndex + 1),
+        [matchedRouteList, handlerIndex]
+    );
+
+    // Nothing can render this error, so let it bubble up like any other render error
+    if (routeError && !routeError.handler) {
+        throw routeError.error;
+    }
+
+    const components = useMemo(() => {
+        for (const id of Object.keys(componentCache)) {
+            if (!hierarchy.includes(id)) {
+                delete componentCache[id];
+            }
+        }
+
+        const componentsList = routeList.map((route) => {
+            if (route.id in componentCache) {
+                return componentCache[route.id];
+            }
+
+            const component = withRoutePreloader(route);
+            component.displayName = route.id;
+            componentCache[route.id] = component;
+            return component;
+        });
+
+        componentsList.reverse();
+        return componentsList;
+    }, [routeList, componentCache, hierarchy]);
+
+    return components;
+};
+
+/**
+ * Finds the matched route with ids for a route definition
+ */
+const useMatchedRoute = (route: Route): RouteWithIds => {
+    const [routerState] = useRouterState();
+    const { hierarchy } = useCurrentMatch();
+
+    const routeList = useMemo(
+        () => mapHierarchyToRoutes(hierarchy, routerState.routes),
+        [hierarchy, routerState.routes]
+    );
+
+    const matchedRoute = routeList.find((r) => r === route || routeDefinitions.get(r) === route);
+    if (!matchedRoute) {
+        throw new Error(`Route ${route.match} is not part of the current match`);
+    }
+
+    return matchedRoute;
+};
+
+/**
+ * The params of the current match, typed from the routes `match`
+ */
+export const useRouteParams = <M extends string>(
+    route: TypedRoute<M, Resolvers>
+): ExtractParams<M> => {
+    useMatchedRoute(route);
+    const { params } = useCurrentMatch();
+
+    return (params || {}) as unknown as ExtractParams<M>;
+};
+
+/**
+ * The resolved data of a route, typed from the routes `resolvers`.
+ * Null until the route has finished resolving
+ */
+export const useResolvedData = <R extends Resolvers>(
+    route: TypedRoute<string, R>
+): ResolvedData<R> | null => {
+    const [routeState] = useRouteState(useMatchedRoute(route));
+
+    return routeState.completed ? (routeState.resolvedData as ResolvedData<R>) : null;
+};
+
+/**
+ * The routes of the current match from the root down with their id, params, meta and
+ * route state. Ie to render breadcrumbs or the page title from a layout
+ */
+export const useMatches = () => {
+    const [routerState] = useRouterState();
+
+    return useMemo(() => getMatches(routerState), [routerState]);
+};
+
+/**
+ * The location a modal route is rendered over. Null when the route renders as a full
+ * page, ie on a direct visit or a reload, and within the page under the modal
+ */
+export const useBackgroundLocation = () => {
+    const [routerState] = useRouterState();
+
+    return routerState.background?.location ?? null;
+};
+
+export const useRouteState = (route: RouteWithIds) => {
     const [routerState, setRouterState] = useRouterState();
+    const { routeStates } = routerState;
 
-    // Todo maybe not needed?
-    const setRouterLocationState = useCallback(
-        (stateBuilder: (state: RouterLocation) => RouterLocation) => {
-            setRouterState((oldState) => {
-                const newLocationState = stateBuilder(oldState.location);
-                return routerStateFromLocation(routerState.routes, newLocationState, oldState);
-            });
+    const setRouteState = useCallback(
+        (state: RouteState) => {
+            setRouterState((old) => ({
+                ...old,
+                routeStates: {
+                    ...old.routeStates,
+                    [route.id]: state,
+                },
+            }));
         },
-        [routerState, setRouterState]
+        [setRouterState, route]
+    );
+
+    if (route.id in routeStates) {
+        const routeState = routeStates[route.id];
+        return [routeState, setRouteState] as [typeof routeState, typeof setRouteState];
+    }
+
+    throw new Error(`Attempt to access uninitialized routeState. Route ${route.id}`);
+};
+
+/**
+ * Returns a function that throws away the cached resolver data of every route matching
+ * the target (all routes if there is no target). Matching routes in the current match
+ * resolve again right away, their current data stays rendered until the new data arrives.
+ * Ie call it after a mutation to refresh the data without navigating
+ */
+export const useRevalidate = () => useRouter().invalidate;
+
+/**
+ * The error and retry function for the errorComponent of a route,
+ * if the route is currently handling an error
+ */
+const useRouteErrorHandler = (route: RouteWithIds) => {
+    const [routerState, setRouterState] = useRouterState();
+    const { hierarchy } = useCurrentMatch();
+    const { routes, routeStates } = routerState;
+
+    const routeList = useMemo(() => mapHierarchyToRoutes(hierarchy, routes), [hierarchy, routes]);
+    const routeError = findRouteError(routeList, routeStates);
+    const failedRoute = routeError?.route;
+
+    const retry = useCallback(() => {
+        if (!failedRoute) {
+            return;
+        }
+
+        setRouterState((old) => ({
+            ...old,
+            routeStates: {
+                ...old.routeStates,
+                [failedRoute.id]: initialRouteState(
+                    failedRoute,
+                    old.routeStates[failedRoute.id]?.key
+                ),
+            },
+        }));
+    }, [setRouterState, failedRoute]);
+
+    if (!routeError || routeError.handler !== route) {
+        return null;
+    }
+
+    return { error: routeError.error, retry };
+};
+
+/**
+ * Whether the pendingComponent of a route should be shown. Waits pendingMs before showing
+ * it and then keeps it shown for at least pendingMinMs to avoid flashes of pending UI
+ */
+const usePendingVisibility = (route: RouteWithIds, loading: boolean) => {
+    const pendingMs = route.pendingMs ?? DEFAULT_PENDING_MS;
+    const pendingMinMs = route.pendingMinMs ?? DEFAULT_PENDING_MIN_MS;
+    const showImmediately = Boolean(route.pendingComponent) && loading && pendingMs <= 0;
+
+    const [showPending, setShowPending] = useState(showImmediately);
+    const shownAt = useRef(showImmediately ? Date.now() : 0);
+
+    useEffect(() => {
+        if (!route.pendingComponent) {
+            return undefined;
+        }
+
+        if (loading && !showPending) {
+            const timeout = setTimeout(() => {
+                shownAt.current = Date.now();
+                setShowPending(true);
+            }, pendingMs);
+            return () => clearTimeout(timeout);
+        }
+
+        if (!loading && showPending) {
+            const remaining = pendingMinMs - (Date.now() - shownAt.current);
+            const timeout = setTimeout(() => setShowPending(false), Math.max(remaining, 0));
+            return () => clearTimeout(timeout);
+        }
+
+        return undefined;
+    }, [loading, showPending]);
+
+    return showPending;
+};
+
+/**
+ * Takes the latest router state and returns the router state that should be rendered.
+ * In keep-previous mode the last fully loaded state is rendered while the latest
+ * state preloads its routes (see useMatchPreload)
+ */
+const useTransitionState = (mode: TransitionMode): [RouterState, NavigationState] => {
+    const [routerState] = useRouterState();
+    const ready = isRouterStateReady(routerState);
+
+    const lastReadyState = useRef<RouterState | null>(null);
+    if (ready || !lastReadyState.current) {
+        lastReadyState.current = routerState;
+    }
+
+    const renderedState = mode === 'keep-previous' ? lastReadyState.current : routerState;
+    const navigationState: NavigationState = useMemo(
+        () =>
+            ready
+                ? { state: 'idle', location: null }
+                : { state: 'loading', location: routerState.location },
+        [ready, routerState.location]
+    );
+
+    return [renderedState, navigationState];
+};
+
+/**
+ * The status of the latest navigation. Ie whether its routes are still
+ * loading and where it is going
+ */
+export const useNavigationState = () => useContext(NavigationContext);
+
+/**
+ * Reads the saved scroll positions from the session storage
+ */
+const readScrollPositions = (storageKey: string): Record<string, [number, number]> => {
+    try {
+        return JSON.parse(window.sessionStorage.getItem(storageKey) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+const writeScrollPositions = (storageKey: string, positions: Record<string, [number, number]>) => {
+    try {
+        window.sessionStorage.setItem(storageKey, JSON.stringify(positions));
+    } catch (e) {
+        // Storage is full or unavailable, positions just won't survive a reload
+    }
+};
+
+/**
+ * Scrolls to the element a hash points to. Returns false if there is no such element
+ */
+const scrollToHash = (hash: string) => {
+    const id = decodeURIComponent(hash.substring(1));
+    const element = document.getElementById(id) || document.getElementsByName(id)[0];
+    if (!element) {
+        return false;
+    }
+
+    element.scrollIntoView();
+    return true;
+};
+
+/**
+ * Saves the scroll position of every history entry and restores it when going
+ * back/forward. Push/replace navigations scroll to the top, or to the element of the
+ * #hash. Scrolling waits until the routes of the new location have finished preloading
+ */
+export const ScrollRestoration = ({
+    getScrollKey: defaultGetScrollKey,
+    storageKey = DEFAULT_SCROLL_STORAGE_KEY,
+}: ScrollRestorationProps) => {
+    const [routerState] = useRouterState();
+    const history = useHistory();
+    const { location, action, currentMatch, routes } = routerState;
+    const ready = isRouterStateReady(routerState);
+
+    // The deepest matched route decides how to scroll
+    const scrollRoute = useMemo(
+        () =>
+            mapHierarchyToRoutes(currentMatch.hierarchy, routes)
+                .reverse()
+                .find((route) => route.scrollRestoration !== undefined || route.getScrollKey),
+        [currentMatch.hierarchy, routes]
     );
+    const enabled = scrollRoute?.scrollRestoration !== false;
+    const getScrollKey = scrollRoute?.getScrollKey || defaultGetScrollKey;
+
+    // Keys come from the history since it creates them after the router state
+    const getKey = useCallback(() => {
+        const historyLocation = { ...location, key: history.getLocation().key };
+        return getScrollKey ? getScrollKey(historyLocation) : historyLocation.key || 'default';
+    }, [location, history, getScrollKey]);
+
+    const positions = useRef<Record<string, [number, number]> | null>(null);
+    if (!positions.current && typeof window !== 'undefined') {
+        positions.current = readScrollPositions(storageKey);
+    }
+
+    // Take over from the browsers own scroll restoration
+    useEffect(() => {
+        const previous = window.history.scrollRestoration;
+        window.history.scrollRestoration = 'manual';
 
-    const locationSetter = useCallback(({ pathname, search }: LocationSetterParams) => {
-        const newState: Partial<RouterLocation> = {};
+        return () => {
+            window.history.scrollRestoration = previous;
+        };
+    }, []);
 
-        if (search) {
-            newState.search = buildSearchString(search);
-        }
+    const handledLocation = useRef<RouterLocation | null>(null);
+    const isInitialLocation = handledLocation.current === null;
 
-        if (pathname) {
-            newState.pathname = pathname;
-        }
+    // Keep the position of the current entry up to date
+    useEffect(() => {
+        let frame: number | null = null;
+        const save = () => {
+            frame = null;
+            // Until the new location is scrolled, scroll events come from the page changing
+            // underneath and would overwrite the position we are about to restore
+            if (positions.current && handledLocation.current === location) {
+                positions.current[getKey()] = [window.scrollX, window.scrollY];
+            }
+        };
+        const onScroll = () => {
+            if (frame === null) {
+                frame = window.requestAnimationFrame(save);
+            }
+        };
+        const persist = () => {
+            if (positions.current) {
+                writeScrollPositions(storageKey, positions.current);
+            }
+        };
 
-        setRouterLocationState((oldState) => {
-            const newLocationState = { ...oldState, ...newState };
-            return newLocationState;
-        });
-    }, []);
+        window.addEventListener('scroll', onScroll, { passive: true });
+        window.addEventListener('pagehide', persist);
 
-    return [routerState.location, locationSetter];
-};
+        return () => {
+            if (frame !== null) {
+                window.cancelAnimationFrame(frame);
+            }
+            window.removeEventListener('scroll', onScroll);
+            window.removeEventListener('pagehide', persist);
+            persist();
+        };
+    }, [getKey, storageKey]);
 
-const useLocationSync = () => {
-    const [routerState, setRouterLocation] = useRouterState();
-    const { routes } = routerState;
+    // The page under a modal stays where it is while modals open and close
+    const handledBackground = useRef<RouterLocation | null>(null);
 
-    // This useEffect syncs the routerStates location to the
-    // browser history and url. This will only be run
-    // from navigation via the useLocation hooks setter
-    // as other regular browser navigation (back button) will be picked
-    // up by the pop state listener
+    // Scroll once per location, after its routes are done preloading
     useEffect(() => {
-        if (
-            location.pathname === routerState.location.pathname &&
-            location.search === routerState.location.search
-        ) {
+        if (!ready || handledLocation.current === location) {
             return;
         }
+        handledLocation.current = location;
 
-        window.history.pushState(
-            null,
-            '',
-            routerState.location.pathname + routerState.location.search
-        );
-    }, [routerState.location]);
-
-    // This listener will be called whenever the window popstate
-    // event occurs (ie when the user hits the back button).
-    // It updates the router state from the new location
-    const popStateListener = useCallback(() => {
-        setRouterLocation((oldState) => ({
-            ...oldState,
-            ...getRouterLocationFromLocation(location),
-        }));
-    }, [routes, setRouterLocation]);
+        const closedModal = handledBackground.current
+            ? isSamePath(handledBackground.current, location)
+            : false;
+        handledBackground.current = routerState.background?.location ?? null;
 
-    // This ref and useEffect will keep the correct popStateListener
-    // actively subscribed to the window popstate event
-    // so that we can properly handle the back button
-    const previousPopstateListener = useRef(popStateListener);
-    useEffect(() => {
-        // Skip remove on initial render
-        if (previousPopstateListener.current !== popStateListener) {
-            window.removeEventListener('popstate', previousPopstateListener.current);
+        if (!enabled || routerState.background || closedModal) {
+            return;
         }
-        window.addEventListener('popstate', popStateListener);
-        previousPopstateListener.current = popStateListener;
-    }, [popStateListener]);
-};
 
-/**
- * This hooks differs from the useRouterState hook in
- * that it sets up the router state such that this hooks return value
- * can be passed directly to the RouterContext.Provider.
- * This hook should only be used once in the Router component,
- * useRouterState should be used everywhere else to read the router state
- *
- */
-const useInitialRouterState = (routes: RouteWithoutIds[], initial?: RouterState) => {
-    const routesWithIds = useMemo(() => addIdsToRoutes(routes), [routes]);
+        const saved = positions.current?.[getKey()];
+        if (action === 'pop' && saved) {
+            window.scrollTo(saved[0], saved[1]);
+            return;
+        }
 
-    const [routerState, setRouterState] = useState<RouterState>(() => {
-        if (initial) return initial;
+        if (location.hash && scrollToHash(location.hash)) {
+            return;
+        }
 
-        return routerStateFromLocation(routesWithIds, getRouterLocationFromLocation(location));
-    });
+        // The initial page load and back/forward without a saved position stay put
+        if (action !== 'pop' && !isInitialLocation) {
+            window.scrollTo(0, 0);
+        }
+    }, [ready, location]);
 
-    return [routerState, setRouterState] as [typeof routerState, typeof setRouterState];
+    return null;
 };
 
+// Marks the <meta> tags RouteHead created, so it only ever removes its own
+const HEAD_ATTRIBUTE = 'data-route-head';
+
 /**
- * This hook takes the hierarchy of
- * routes that should be rendered and converts it
- * into a list of components that should be rendered
+ * Sets the document title and <meta> tags from the meta of the current match. Waits until
+ * the routes finished preloading, so meta built from resolved data is complete. Render it
+ * anywhere inside the <Router />. On the server, write the head preloadPath returns instead
  */
-const useCurrentMatchComponents = () => {
+export const RouteHead = () => {
     const [routerState] = useRouterState();
-    const { hierarchy } = useCurrentMatch();
-    const componentCache = useComponentCache();
+    const ready = isRouterStateReady(routerState);
+    const head = useMemo(() => getRouteHead(routerState), [routerState]);
 
-    const { routes } = routerState;
-
-    const routeList = useMemo(() => mapHierarchyToRoutes(hierarchy, routes), [hierarchy, routes]);
+    useEffect(() => {
+        if (!ready) {
+            return;
+        }
 
-    const components = useMemo(() => {
-        for (const id of Object.keys(componentCache)) {
-            if (!hierarchy.includes(id)) {
-                delete componentCache[id];
-            }
+        if (head.title !== undefined) {
+            document.title = head.title;
         }
 
-        const componentsList = routeList.map((route) => {
-            if (route.id in componentCache) {
-                return componentCache[route.id];
+        document.head
+            .querySelectorAll<HTMLMetaElement>(`meta[${HEAD_ATTRIBUTE}]`)
+            .forEach((element) => {
+                if (!(element.name in head.tags)) {
+                    element.remove();
+                }
+            });
+
+        // Tags rendered on the server are taken over, so they are removed once no route sets them
+        Object.entries(head.tags).forEach(([name, content]) => {
+            let element = document.head.querySelector<HTMLMetaElement>(`meta[name="${name}"]`);
+            if (!element) {
+                element = document.createElement('meta');
+                element.name = name;
+                document.head.appendChild(element);
             }
 
-            const component = withRoutePreloader(route);
-            component.displayName = route.id;
-            componentCache[route.id] = component;
-            return component;
+            element.setAttribute(HEAD_ATTRIBUTE, '');
+            element.content = content;
         });
+    }, [ready, head]);
 
-        componentsList.reverse();
-        return componentsList;
-    }, [routeList, componentCache, hierarchy]);
-
-    return components;
-};
-
-export const useRouteState = (route: RouteWithIds) => {
-    const [routerState, setRouterState] = useRouterState();
-    const { routeStates } = routerState;
-
-    const setRouteState = useCallback(
-        (state: RouteState) => {
-            setRouterState((old) => ({
-                ...old,
-                routeStates: {
-                    ...old.routeStates,
-                    [route.id]: state,
-                },
-            }));
-        },
-        [setRouterState, route]
-    );
-
-    if (route.id in routeStates) {
-        // type ResolverType = typeof route.resolvers;
-        // type ResolverItems = ResolverType extends Iterable<Promise<infer X>> ? X : never;
-        const routeState = routeStates[route.id];
-        return [routeState, setRouteState] as [
-            // RouteState<ResolvedData<typeof route.resolvers>>,
-            typeof routeState,
-            typeof setRouteState
-        ];
-    }
-
-    throw new Error(`Attempt to access uninitialized routeState. Route ${route.id}`);
+    return null;
 };
 
-// const resolvers = [Promise.resolve({ a: 'green' }), Promise.resolve({ b: 1 })];
-// type ResolverType = typeof resolvers;
-// type ResolverItems = ResolverType extends Iterable<Promise<infer X>> ? X : never;
-
-// Black magic https://stackoverflow.com/questions/50374908/transform-union-type-to-intersection-type
-// type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends (k: infer I) => void
-//     ? I
-//     : never;
-// type ResolvedObject = ResolverItems extends infer O ? { [K in keyof O]: O[K] } : never;
-// type ResolvedObject = UnionToIntersection<ResolverItems>;
+// ROUTER
 
-// type ResolvedData<RT> = RT extends Iterable<Promise<Record<string, any>>>
-//     ? UnionToIntersection<RT extends Iterable<Promise<infer X>> ? X : {}>
-//     : {};
+export const Router = memo(
+    (
+        props: {
+            transition?: TransitionMode;
+            // Renders a <ScrollRestoration /> with the given props
+            scrollRestoration?: boolean | ScrollRestorationProps;
+        } & (
+            | {
+                  router: RouterInstance;
+                  routes?: never;
+                  history?: never;
+                  basename?: never;
+                  initialRouterState?: never;
+                  instrumentation?: never;
+              }
+            | {
+                  router?: never;
+                  routes: Route[];
+                  // Defaults to the browser history, or the history of the parent router
+                  history?: History;
+                  basename?: string;
+                  initialRouterState?: RouterState;
+                  instrumentation?: NavigationEventListener[];
+              }
+        )
+    ) => {
+        const { transition = 'immediate', scrollRestoration = false } = props;
+        const parentRouter = useContext(RouterInstanceContext);
+
+        // The router is static, so are the routes and history it is created from. Creating
+        // it has no side effects, StrictMode may well create one more and throw it away
+        const [{ router, owned }] = useState(() => ({
+            router:
+                props.router ||
+                createRouter({
+                    routes: props.routes || [],
+                    // A router inside another router's route is mounted where that route matched
+                    history:
+                        props.history ||
+                        (parentRouter
+                            ? createNestedHistory(
+                                  parentRouter,
+                                  getMatchedPrefix(parentRouter.getState())
+                              )
+                            : undefined),
+                    basename: props.basename,
+                    initialState: props.initialRouterState,
+                    instrumentation: props.instrumentation,
+                    autoStart: false,
+                }),
+            owned: !props.router,
+        }));
 
-const useRoutePreload = (route: RouteWithIds) => {
-    const [locationState, setLocationState] = useLocation();
-    const [routeState, setRouteState] = useRouteState(route);
+        // Mistakes in the routes only show up while navigating otherwise
+        useEffect(() => {
+            if (!isDevelopment) {
+                return;
+            }
 
-    useEffect(() => {
-        if (routeState.completed) {
-            return () => null;
-        }
+            const problems = validateRoutes(router.getState().routes);
+            if (problems.length) {
+                // eslint-disable-next-line no-console
+                console.warn(formatRouteProblems(problems));
+            }
+        }, [router]);
 
-        const { cancel } = preloadRoute(route, locationState, setLocationState, setRouteState);
+        // Routers passed in are started and disposed by whoever created them. Stopping
+        // instead of disposing lets StrictMode mount the same router again
+        useEffect(() => (owned ? router.start() : undefined), [router, owned]);
 
-        // Cancel preload promises if the component is unmounted
-        return () => {
-            cancel();
-        };
-    }, []);
-};
+        const routerState = useSyncExternalStore(router.subscribe, router.getState);
 
-// ROUTER
+        return (
+            <RouterInstanceContext.Provider value={router}>
+                <RouterContext.Provider value={[routerState, router.setState]}>
+                    <RouterTransition mode={transition} scrollRestoration={scrollRestoration} />
+                </RouterContext.Provider>
+            </RouterInstanceContext.Provider>
+        );
+    }
+);
 
-export const Router = memo(
+/**
+ * Sits between the Router and the RouterConsumer. It keeps the history in sync
+ * with the latest router state and provides the router state that should
+ * be rendered to the RouterConsumer
+ */
+const RouterTransition = memo(
     ({
-        routes: nonStaticRoutes,
-        initialRouterState,
+        mode,
+        scrollRestoration,
     }: {
-        routes: Route[];
-        initialRouterState?: RouterState;
+        mode: TransitionMode;
+        scrollRestoration: boolean | ScrollRestorationProps;
     }) => {
-        // Make routes static. Routes should not be dynamic
-        const routes = useMemo(() => nonStaticRoutes, []);
-
-        const [routerState, setRouterLocationState] = useInitialRouterState(
-            routes,
-            initialRouterState
-        );
+        const [, setRouterState] = useRouterState();
+        const [renderedState, navigationState] = useTransitionState(mode);
 
         return (
-            <RouterContext.Provider value={[routerState, setRouterLocationState]}>
-                <RouterConsumer />
-            </RouterContext.Provider>
+            <NavigationContext.Provider value={navigationState}>
+                <RouterContext.Provider value={[renderedState, setRouterState]}>
+                    {scrollRestoration && (
+                        <ScrollRestoration
+                            {...(scrollRestoration === true ? {} : scrollRestoration)}
+                        />
+                    )}
+                    <RouterConsumer />
+                </RouterContext.Provider>
+            </NavigationContext.Provider>
         );
     }
 );
 
 /**
- * The consumer is separate from the Router
- * as it consumes the router context instead of providing
- * the context. So the main reason for this component
- * is that we can just call useRouterState
+ * Renders the routes of the current match
  */
-const RouterConsumer = memo(() => {
-    useLocationSync();
-
+const MatchConsumer = memo(() => {
     const components = useCurrentMatchComponents();
 
+    // Named views go to the outlets of every route above them. The deepest route wins
     let componentToRender = null;
+    let outlets: Record<string, ReactNode> = {};
     for (const Component of components) {
-        componentToRender = <Component>{componentToRender}</Component>;
+        componentToRender = <Component outlets={outlets}>{componentToRender}</Component>;
+        outlets = { ...Component.views, ...outlets };
     }
 
     return componentToRender;
 });
 
+/**
+ * The consumer is separate from the Router
+ * as it consumes the router context instead of providing
+ * the context. So the main reason for this component
+ * is that we can just call useRouterState.
+ * Modal routes render over the page they were opened from, the page
+ * renders its background state as if it was the current location
+ */
+const RouterConsumer = memo(() => {
+    const [routerState, setRouterState] = useRouterState();
+    const { background } = routerState;
+
+    const backgroundState = useMemo(
+        (): RouterState => ({ ...routerState, ...background, background: undefined }),
+        [routerState, background]
+    );
+
+    // Route state updates from the page, ie a retry, go to the background
+    const setBackgroundState = useCallback(
+        (update: React.SetStateAction<RouterState>) =>
+            setRouterState((old) => {
+                if (!old.background) {
+                    return old;
+                }
+
+                const previous = { ...old, ...old.background, background: undefined };
+                const next = typeof update === 'function' ? update(previous) : update;
+                if (next === previous) {
+                    return old;
+                }
+
+                const { location, currentMatch, routeStates } = next;
+                return { ...old, background: { location, currentMatch, routeStates } };
+            }),
+        [setRouterState]
+    );
+
+    return (
+        <>
+            <RouterContext.Provider
+                value={
+                    background
+                        ? [backgroundState, setBackgroundState]
+                        : [routerState, setRouterState]
+                }
+            >
+                <MatchConsumer />
+            </RouterContext.Provider>
+            {background && <MatchConsumer />}
+        </>
+    );
+});
+
+/**
+ * Renders a named view of a route once the route is done guarding/resolving.
+ * It shares the guarding/resolving of the route's main component
+ */
+const RouteView = ({
+    route,
+    component: Component,
+}: {
+    route: RouteWithIds;
+    component: React.ComponentType<any>;
+}) => {
+    const [routeState] = useRouteState(route);
+
+    if (!routeState.completed || routeState.error != null) {
+        return null;
+    }
+
+    return <Component route={route} />;
+};
+
+/**
+ * Renders a view of the matched child routes. Without a name it renders the matched
+ * child, the same as the children of a route component. With a name it renders the
+ * view of that name from the deepest matched route below that declares one in `components`
+ */
+export const Outlet = ({ name = MAIN_OUTLET }: { name?: string }) => {
+    const outlets = useContext(OutletContext);
+
+    return <>{outlets[name] ?? null}</>;
+};
+
 /**
  * This HOC handles the guarding and resolving of routes,
  * as well as defining and updating the routeState based
  * on the guarding and resolving status
  */
-const withRoutePreloader = (route: RouteWithIds) =>
-    memo(({ children }: { children: any }) => {
-        useRoutePreload(route);
+const withRoutePreloader = (route: RouteWithIds): RoutePreloader => {
+    const component = memo(
+        ({ children, outlets }: { children: ReactNode; outlets: Record<string, ReactNode> }) => {
+            const [routeState] = useRouteState(route);
+            const errorHandler = useRouteErrorHandler(route);
+            const showPending = usePendingVisibility(route, routeState.loading);
+
+            if (errorHandler && route.errorComponent) {
+                return (
+                    <route.errorComponent
+                        route={route}
+                        error={errorHandler.error}
+                        retry={errorHandler.retry}
+                    />
+                );
+            }
+
+            if (route.pendingComponent) {
+                if (showPending) {
+                    return <route.pendingComponent route={route} />;
+                }
+
+                // Render nothing until the pendingComponent is due
+                if (routeState.loading) {
+                    return null;
+                }
+            }
+
+            const Component = getRouteComponent(route);
+            if (Component) {
+                return (
+                    <OutletContext.Provider value={{ ...outlets, [MAIN_OUTLET]: children }}>
+                        <Component route={route}>{children}</Component>
+                    </OutletContext.Provider>
+                );
+            }
+
+            // The lazy component is still loading
+            if (route.lazy) {
+                return null;
+            }
 
-        if (route.component) {
-            return <route.component route={route}>{children}</route.component>;
+            return <>{children}</>;
         }
+    );
 
-        return children;
+    // The named views of the route, rendered by the outlets of the routes above
+    const views: Record<string, ReactNode> = {};
+    Object.entries(route.components || {}).forEach(([name, view]) => {
+        if (name !== MAIN_OUTLET) {
+            views[name] = <RouteView route={route} component={view} />;
+        }
     });
 
+    return Object.assign(component, { views });
+};
+
 // LINK
 
-export const Link = ({
-    to,
-    onClick = () => null,
-    children = null,
-    ...rest
-}: {
-    to: string;
+// When a NavLink loads the data of the location it points to
+export type PrefetchMode = 'none' | 'hover' | 'viewport' | 'render';
+
+type LinkProps = {
+    to: string | NamedLocation;
     children?: React.ReactNode;
     onClick?: (event: any) => void;
-}) => {
-    const [_, setLocation] = useLocation();
+    target?: string;
+} & NavigationOptions &
+    Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href' | 'onClick'>;
+
+/**
+ * Returns a function that loads the lazy chunks and resolver data of a
+ * location ahead of navigating to it
+ */
+export const usePrefetch = () => useRouter().preload;
+
+/**
+ * The href and click handler shared by Link and NavLink
+ */
+const useLink = ({
+    to,
+    replace,
+    state,
+    target: anchorTarget,
+    onClick,
+}: Pick<LinkProps, 'to' | 'replace' | 'state' | 'target' | 'onClick'>) => {
+    const [location, setLocation] = useLocation();
+    const history = useHistory();
+    const buildPath = useBuildPath();
+
+    // The location the link points to. Relative links are resolved
+    // against the current location
+    const target = useMemo((): RouterLocation => {
+        if (typeof to === 'string') {
+            return resolvePath(to, location);
+        }
+
+        const parsed = parsePath(buildPath(to.name, to.params, to.search));
+        return { ...parsed, hash: to.hash ? buildHashString(to.hash) : '' };
+    }, [to, location, buildPath]);
+
+    const href = useMemo(() => history.createHref(target), [history, target]);
 
     const handleClick = useCallback(
         (event) => {
+            if (onClick) {
+                onClick(event);
+            }
+
             if (
+                event.defaultPrevented ||
                 event.ctrlKey ||
                 event.metaKey ||
                 event.altKey ||
                 event.shiftKey ||
-                event.button !== 0
+                event.button !== 0 ||
+                // Let the browser open other browsing contexts
+                (anchorTarget && anchorTarget !== '_self')
             ) {
                 return;
             }
 
             event.preventDefault();
 
-            setLocation({ pathname: to });
+            setLocation({
+                pathname: target.pathname,
+                search: target.search,
+                hash: target.hash,
+                replace,
+                state,
+            });
+        },
+        [target, replace, state, anchorTarget, onClick, setLocation]
+    );
 
-            if (onClick) {
-                onClick(event);
+    return { target, href, handleClick };
+};
+
+export const Link = ({
+    to,
+    replace,
+    state,
+    target,
+    onClick,
+    children = null,
+    ...rest
+}: LinkProps) => {
+    const { href, handleClick } = useLink({ to, replace, state, target, onClick });
+
+    return (
+        <a href={href} onClick={handleClick} target={target} {...rest}>
+            {children}
+        </a>
+    );
+};
+
+export interface NavLinkRenderProps {
+    isActive: boolean;
+    isPending: boolean;
+}
+
+/**
+ * Whether the location a link points to matches a location. In `end` mode the
+ * routes and params must be the same, otherwise the link also matches every
+ * location under it, ie /users matches /users/1
+ */
+const linkMatches = (
+    routes: RouteWithIds[],
+    linkLocation: RouterLocation,
+    location: RouterLocation,
+    match: RouteMatch,
+    end: boolean
+) => {
+    const linkMatch = getRouteMatcher(routes).match(linkLocation.pathname);
+    const sameMatch =
+        Boolean(linkMatch) &&
+        linkMatch?.hierarchy.join('/') === match.hierarchy.join('/') &&
+        JSON.stringify(linkMatch?.params || {}) === JSON.stringify(match.params || {});
+
+    if (sameMatch || end) {
+        return sameMatch;
+    }
+
+    const linkPath = linkLocation.pathname.replace(/\/+$/, '').toLowerCase();
+    const path = location.pathname.replace(/\/+$/, '').toLowerCase();
+
+    // Every path is under /, so a link to / only matches / itself
+    if (!linkPath) {
+        return !path;
+    }
+
+    return path === linkPath || path.startsWith(`${linkPath}/`);
+};
+
+/**
+ * A Link that knows whether it points at the current location (isActive) or at the
+ * location currently being navigated to (isPending). It can also prefetch the lazy
+ * chunks and data of its location ahead of a click
+ */
+export const NavLink = ({
+    to,
+    replace,
+    state,
+    target,
+    onClick,
+    end = false,
+    prefetch = 'none',
+    className,
+    style,
+    children = null,
+    onMouseEnter,
+    onFocus,
+    ...rest
+}: Omit<LinkProps, 'className' | 'style' | 'children'> & {
+    end?: boolean;
+    prefetch?: PrefetchMode;
+    className?: string | ((props: NavLinkRenderProps) => string | undefined);
+    style?: React.CSSProperties | ((props: NavLinkRenderProps) => React.CSSProperties);
+    children?: React.ReactNode | ((props: NavLinkRenderProps) => React.ReactNode);
+}) => {
+    const [routerState] = useRouterState();
+    const navigation = useNavigationState();
+    const prefetchLink = usePrefetch();
+    const {
+        target: linkLocation,
+        href,
+        handleClick,
+    } = useLink({
+        to,
+        replace,
+        state,
+        target,
+        onClick,
+    });
+    const { routes } = routerState;
+
+    const isActive = useMemo(
+        () =>
+            linkMatches(routes, linkLocation, routerState.location, routerState.currentMatch, end),
+        [routes, linkLocation, routerState.location, routerState.currentMatch, end]
+    );
+
+    const isPending = useMemo(() => {
+        if (navigation.state !== 'loading' || !navigation.location) {
+            return false;
+        }
+
+        const pendingMatch = getRouteMatcher(routes).match(navigation.location.pathname);
+        return Boolean(
+            pendingMatch &&
+                linkMatches(routes, linkLocation, navigation.location, pendingMatch, end)
+        );
+    }, [navigation, routes, linkLocation, end]);
+
+    // Only prefetch a location once per link
+    const prefetched = useRef<string | null>(null);
+    const runPrefetch = useCallback(() => {
+        if (prefetched.current === href) {
+            return;
+        }
+
+        prefetched.current = href;
+        prefetchLink(linkLocation);
+    }, [href, linkLocation, prefetchLink]);
+
+    useEffect(() => {
+        if (prefetch === 'render') {
+            runPrefetch();
+        }
+    }, [prefetch, runPrefetch]);
+
+    const anchor = useRef<HTMLAnchorElement>(null);
+    useEffect(() => {
+        if (
+            prefetch !== 'viewport' ||
+            !anchor.current ||
+            typeof IntersectionObserver === 'undefined'
+        ) {
+            return undefined;
+        }
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                runPrefetch();
+                observer.disconnect();
             }
+        });
+        observer.observe(anchor.current);
+
+        return () => observer.disconnect();
+    }, [prefetch, runPrefetch]);
+
+    const handleMouseEnter = useCallback(
+        (event: React.MouseEvent<HTMLAnchorElement>) => {
+            if (onMouseEnter) onMouseEnter(event);
+            if (prefetch === 'hover') runPrefetch();
+        },
+        [onMouseEnter, prefetch, runPrefetch]
+    );
+
+    const handleFocus = useCallback(
+        (event: React.FocusEvent<HTMLAnchorElement>) => {
+            if (onFocus) onFocus(event);
+            if (prefetch === 'hover') runPrefetch();
         },
-        [onClick, setLocation]
+        [onFocus, prefetch, runPrefetch]
     );
 
+    const renderProps = { isActive, isPending };
+
     return (
-        <a href={to} onClick={handleClick} {...rest}>
-            {children}
+        <a
+            ref={anchor}
+            href={href}
+            onClick={handleClick}
+            onMouseEnter={handleMouseEnter}
+            onFocus={handleFocus}
+            target={target}
+            className={typeof className === 'function' ? className(renderProps) : className}
+            style={typeof style === 'function' ? style(renderProps) : style}
+            aria-current={isActive ? 'page' : undefined}
+            {...rest}
+        >
+            {typeof children === 'function' ? children(renderProps) : children}
         </a>
     );
 };
@@ -0,0 +1,59 @@
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+
+type Subscribe = (onStoreChange: () => void) => () => void;
+
+// Layout effects warn when rendering on the server
+const useIsomorphicLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
+
+/**
+ * Whether the store has changed since the snapshot was rendered
+ */
+const didSnapshotChange = <T>(inst: { value: T; getSnapshot: () => T }) => {
+    try {
+        return !Object.is(inst.value, inst.getSnapshot());
+    } catch (error) {
+        return true;
+    }
+};
+
+/**
+ * A version of React 18's useSyncExternalStore for React 17. Renders with the current
+ * snapshot and re-renders whenever the store changes to a different snapshot
+ */
+const useSyncExternalStoreShim = <T>(subscribe: Subscribe, getSnapshot: () => T): T => {
+    const value = getSnapshot();
+    const [{ inst }, forceUpdate] = useState({ inst: { value, getSnapshot } });
+
+    // Keep the latest snapshot around for the subscription. The store may have
+    // changed between the render and the subscription, so check it again
+    useIsomorphicLayoutEffect(() => {
+        inst.value = value;
+        inst.getSnapshot = getSnapshot;
+
+        if (didSnapshotChange(inst)) {
+            forceUpdate({ inst });
+        }
+    }, [subscribe, value, getSnapshot]);
+
+    useEffect(() => {
+        if (didSnapshotChange(inst)) {
+            forceUpdate({ inst });
+        }
+
+        return subscribe(() => {
+            if (didSnapshotChange(inst)) {
+                forceUpdate({ inst });
+            }
+        });
+    }, [subscribe]);
+
+    return value;
+};
+
+/**
+ * Subscribes a component to an external store, ie the router. Uses React's own
+ * useSyncExternalStore when there is one (React 18) and the shim otherwise
+ */
+export const useSyncExternalStore: <T>(subscribe: Subscribe, getSnapshot: () => T) => T =
+    (React as { useSyncExternalStore?: typeof useSyncExternalStoreShim }).useSyncExternalStore ||
+    useSyncExternalStoreShim;
@@ -0,0 +1,190 @@
+import { parse, pathToRegexp } from 'path-to-regexp';
+import { compileRoutes, mergePaths, normalizeWildcard } from './matcher';
+import type { Route, RouteWithIds } from './router';
+
+export type RouteProblemType =
+    | 'invalid-pattern'
+    | 'duplicate-id'
+    | 'duplicate-pattern'
+    | 'shadowed'
+    | 'unrenderable';
+
+// A mistake in the routes tree. The path is where the route sits in the tree,
+// ie `routes[1] (/admin) > children[0] (/users/:id)`
+export interface RouteProblem {
+    type: RouteProblemType;
+    path: string;
+    message: string;
+}
+
+// A route visited while walking the tree along with where it is and the full pattern it matches
+interface VisitedRoute {
+    route: Route;
+    path: string;
+    pattern: string;
+}
+
+// HELPERS
+
+/**
+ * How a route is shown in a tree path, ie `children[0] "user" (/users/:id)`
+ */
+const describeRoute = (route: Route, key: string) =>
+    `${key}${route.name ? ` "${route.name}"` : ''} (${route.match})`;
+
+/**
+ * The error path-to-regexp throws for a pattern, null if it compiles
+ */
+const getPatternError = (pattern: string): string | null => {
+    try {
+        pathToRegexp(normalizeWildcard(pattern));
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+};
+
+/**
+ * A path the pattern matches, ie /users/:id => /users/__sample. Params with a custom
+ * pattern might not accept the sample value, so callers check the path still matches
+ */
+const samplePath = (pattern: string, value: string) =>
+    parse(normalizeWildcard(pattern))
+        .map((token) =>
+            typeof token === 'string' ? token : `${token.prefix}${value}${token.suffix}`
+        )
+        .join('');
+
+/**
+ * Walks the routes tree like the matcher does. Index children match the path of their
+ * parent. Routes with an invalid pattern are reported and left out along with their children
+ */
+const walkRoutes = (
+    routes: Route[],
+    parent: VisitedRoute | null,
+    visited: VisitedRoute[],
+    problems: RouteProblem[]
+): RouteWithIds[] =>
+    routes.reduce<RouteWithIds[]>((valid, route, index) => {
+        const key = parent ? `children[${index}]` : `routes[${index}]`;
+        const path = parent
+            ? `${parent.path} > ${describeRoute(route, key)}`
+            : describeRoute(route, key);
+
+        const patternError = getPatternError(route.match);
+        if (patternError) {
+            problems.push({
+                type: 'invalid-pattern',
+                path,
+                message: `"${route.match}" is not a valid path: ${patternError}`,
+            });
+            return valid;
+        }
+
+        let pattern = route.match;
+        if (parent) {
+            const isIndex = route.match === '/' || route.match === '';
+            pattern = isIndex ? parent.pattern : mergePaths(parent.pattern, route.match);
+        }
+
+        const current = { route, path, pattern };
+        visited.push(current);
+
+        // The matcher only ever renders a route through its children
+        if (route.children && !route.children.length && !route.lazyChildren) {
+            problems.push({
+                type: 'unrenderable',
+                path,
+                message: `${pattern} has no children to render${
+                    route.component ? ', so its component never renders' : ''
+                }. Remove the empty children array or add an index route`,
+            });
+        }
+
+        // Ids are unique per tree, so the tree path is a unique id too
+        const id = String(visited.length - 1);
+        return [
+            ...valid,
+            route.children
+                ? { ...route, id, children: walkRoutes(route.children, current, visited, problems) }
+                : ({ ...route, id } as RouteWithIds),
+        ];
+    }, []);
+
+/**
+ * Reports routes that can never match because a route declared before them matches the
+ * same paths. The compiled matcher decides, so this is exactly what navigating would do
+ */
+const findShadowedRoutes = (routes: RouteWithIds[], visited: VisitedRoute[]) => {
+    const problems: RouteProblem[] = [];
+    const { entries, match } = compileRoutes(routes);
+
+    entries.forEach((entry) => {
+        const path = ['__sample', '1']
+            .map((value) => samplePath(entry.pattern, value))
+            .find((sample) => entry.regex.test(sample));
+        const winner = path !== undefined && match(path);
+        if (!winner || winner.hierarchy.join() === entry.hierarchy.join()) {
+            return;
+        }
+
+        const shadowed = visited[Number(entry.hierarchy[entry.hierarchy.length - 1])];
+        const by = visited[Number(winner.hierarchy[winner.hierarchy.length - 1])];
+        const duplicate = by.pattern === entry.pattern;
+
+        problems.push({
+            type: duplicate ? 'duplicate-pattern' : 'shadowed',
+            path: shadowed.path,
+            message: duplicate
+                ? `${entry.pattern} is matched twice. The route at ${by.path} always wins`
+                : `${entry.pattern} never matches because ${by.pattern} at ${by.path} is declared earlier and matches the same paths`,
+        });
+    });
+
+    return problems;
+};
+
+// VALIDATION
+
+/**
+ * Checks a routes tree for mistakes that otherwise only show up while navigating. Reports
+ * invalid patterns, duplicate explicit ids, routes matching the same pattern, routes that
+ * never match because an earlier route (ie a param or `*` route) matches the same paths and
+ * routes that can't render. Lazy children aren't loaded, so they aren't checked.
+ * The <Router /> runs it in development, call it in your tests to fail on any problem
+ */
+export const validateRoutes = (routes: Route[]): RouteProblem[] => {
+    const problems: RouteProblem[] = [];
+    const visited: VisitedRoute[] = [];
+    const validRoutes = walkRoutes(routes, null, visited, problems);
+
+    // Explicit ids are used as keys for the route states
+    const idPaths = new Map<string, string>();
+    visited.forEach(({ route, path }) => {
+        if (!('id' in route)) {
+            return;
+        }
+
+        const firstPath = idPaths.get(route.id);
+        if (firstPath === undefined) {
+            idPaths.set(route.id, path);
+        } else {
+            problems.push({
+                type: 'duplicate-id',
+                path,
+                message: `The id "${route.id}" is already used by ${firstPath}`,
+            });
+        }
+    });
+
+    return [...problems, ...findShadowedRoutes(validRoutes, visited)];
+};
+
+/**
+ * A readable report of the problems validateRoutes found, one problem per line
+ */
+export const formatRouteProblems = (problems: RouteProblem[]) =>
+    [
+        `Found ${problems.length} problem${problems.length === 1 ? '' : 's'} in the routes:`,
+        ...problems.map(({ type, path, message }) => `  [${type}] ${path}: ${message}`),
+    ].join('\n');